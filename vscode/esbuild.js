@@ -5,14 +5,18 @@ const watch = process.argv.includes('--watch');
 
 async function main() {
 	const ctx = await esbuild.context({
-		entryPoints: ['src/extension.ts'],
+		entryPoints: {
+			extension: 'src/extension.ts',
+			// Standalone script copied into .git/hooks by "SOPS: Install Git Pre-Commit Hook"
+			preCommitHook: 'src/git/preCommitHook.ts'
+		},
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
+		outdir: 'dist',
 		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
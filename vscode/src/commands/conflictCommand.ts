@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitRunner, MergeResult } from '../git/gitRunner';
+import { SopsRunner } from '../sops/sopsRunner';
+import { SopsDetector } from '../sops/sopsDetector';
+import { DecryptedFileSystemProvider } from '../providers/decryptedFileSystemProvider';
+import { DecryptedGitContentProvider } from '../providers/decryptedGitContentProvider';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
+
+/**
+ * Index stages of a conflicted file
+ */
+const STAGE_BASE = ':1';
+const STAGE_OURS = ':2';
+const STAGE_THEIRS = ':3';
+
+/**
+ * Read a conflict stage from the git index and decrypt it.
+ * A missing stage (e.g. no common base for add/add conflicts) is treated as empty.
+ */
+async function readStage(
+    gitRunner: GitRunner,
+    sopsRunner: SopsRunner,
+    sopsDetector: SopsDetector,
+    filePath: string,
+    stage: string
+): Promise<string> {
+    const content = await gitRunner.getFileAtRef(filePath, stage);
+    if (content === null) {
+        return '';
+    }
+    return sopsDetector.isContentEncrypted(content)
+        ? sopsRunner.decryptContent(content, filePath)
+        : content;
+}
+
+/**
+ * Open VS Code's three-way merge editor on the decrypted stages, writing into outputUri.
+ * Returns false when the merge editor is not available.
+ */
+async function openMergeEditor(uri: vscode.Uri, outputUri: vscode.Uri): Promise<boolean> {
+    try {
+        // Same internal command the built-in git extension uses to open the merge editor
+        await vscode.commands.executeCommand('_open.mergeEditor', {
+            base: DecryptedGitContentProvider.createUri(uri, STAGE_BASE),
+            input1: {
+                uri: DecryptedGitContentProvider.createUri(uri, STAGE_OURS),
+                title: 'Current',
+                description: 'Ours (decrypted)'
+            },
+            input2: {
+                uri: DecryptedGitContentProvider.createUri(uri, STAGE_THEIRS),
+                title: 'Incoming',
+                description: 'Theirs (decrypted)'
+            },
+            output: outputUri
+        });
+        return true;
+    } catch (error) {
+        logger.debug(`ResolveConflict command: Merge editor unavailable: ${getErrorMessage(error)}`);
+        return false;
+    }
+}
+
+/**
+ * Offer to stage the file once the merge result has been encrypted and saved
+ */
+function watchForResolution(gitRunner: GitRunner, uri: vscode.Uri, outputUri: vscode.Uri): void {
+    const fileName = path.basename(uri.fsPath);
+    const disposables: vscode.Disposable[] = [];
+    const stopWatching = (): void => {
+        disposables.forEach((d) => d.dispose());
+    };
+
+    disposables.push(
+        vscode.workspace.onDidSaveTextDocument(async (doc) => {
+            if (doc.uri.toString() !== outputUri.toString()) {
+                return;
+            }
+            stopWatching();
+
+            const action = await vscode.window.showInformationMessage(
+                `Conflict in ${fileName} resolved and re-encrypted. Mark it as resolved in git?`,
+                'Stage File'
+            );
+            if (action !== 'Stage File') {
+                return;
+            }
+
+            try {
+                await gitRunner.stageFile(uri.fsPath);
+                logger.debug(`ResolveConflict command: Staged ${uri.fsPath}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to stage ${fileName}: ${getErrorMessage(error)}`);
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument((doc) => {
+            if (doc.uri.toString() === outputUri.toString()) {
+                stopWatching();
+            }
+        })
+    );
+}
+
+/**
+ * Register the resolve SOPS conflict command.
+ * Decrypts the base/ours/theirs stages of a conflicted file from the git index,
+ * opens a three-way merge on the plaintext, and re-encrypts the result with the
+ * file's creation rule when it is saved.
+ */
+export function registerResolveConflictCommand(
+    gitRunner: GitRunner,
+    sopsRunner: SopsRunner,
+    sopsDetector: SopsDetector,
+    decryptedFileSystemProvider: DecryptedFileSystemProvider
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.resolveConflict',
+        async (resource?: unknown) => {
+            // Support editor, explorer and SCM contexts
+            const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
+            if (!uri) {
+                logger.debug('ResolveConflict command: No file selected');
+                vscode.window.showWarningMessage('No file selected');
+                return;
+            }
+
+            logger.debug(`ResolveConflict command: Processing ${uri.fsPath}`);
+
+            if (uri.scheme !== 'file') {
+                logger.debug('ResolveConflict command: Skipping non-file scheme');
+                vscode.window.showWarningMessage('Can only resolve conflicts in local files');
+                return;
+            }
+
+            let isConflicted: boolean;
+            try {
+                isConflicted = await gitRunner.isConflicted(uri.fsPath);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to read git status: ${getErrorMessage(error)}`);
+                return;
+            }
+
+            if (!isConflicted) {
+                logger.debug('ResolveConflict command: File has no unmerged index entries');
+                vscode.window.showInformationMessage('File has no unresolved git merge conflict');
+                return;
+            }
+
+            let merged: MergeResult;
+            try {
+                merged = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Decrypting conflicting versions...',
+                        cancellable: false
+                    },
+                    async () => {
+                        const [base, ours, theirs] = await Promise.all(
+                            [STAGE_BASE, STAGE_OURS, STAGE_THEIRS].map((stage) =>
+                                readStage(gitRunner, sopsRunner, sopsDetector, uri.fsPath, stage)
+                            )
+                        );
+                        return gitRunner.mergeContent(uri.fsPath, ours, base, theirs, {
+                            ours: 'Current (ours)',
+                            base: 'Base',
+                            theirs: 'Incoming (theirs)'
+                        });
+                    }
+                );
+            } catch (error) {
+                logger.error(`ResolveConflict command: Failed for ${uri.fsPath}: ${getErrorMessage(error)}`);
+                vscode.window.showErrorMessage(`Failed to decrypt conflicting versions: ${getErrorMessage(error)}`);
+                return;
+            }
+
+            logger.debug(`ResolveConflict command: Plaintext merge left ${merged.conflicts} conflicts`);
+
+            const outputUri = decryptedFileSystemProvider.createEditDocument(uri, merged.content, {
+                resolvesConflict: true
+            });
+            watchForResolution(gitRunner, uri, outputUri);
+
+            if (await openMergeEditor(uri, outputUri)) {
+                return;
+            }
+
+            // Fall back to editing the merge result with conflict markers
+            const doc = await vscode.workspace.openTextDocument(outputUri);
+            await vscode.window.showTextDocument(doc, { preview: false });
+            vscode.window.showInformationMessage(
+                merged.conflicts > 0
+                    ? `${merged.conflicts} conflict(s) remain. Resolve the markers and save to re-encrypt ${path.basename(uri.fsPath)}.`
+                    : `All changes merged cleanly. Review and save to re-encrypt ${path.basename(uri.fsPath)}.`
+            );
+        }
+    );
+}
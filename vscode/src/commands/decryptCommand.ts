@@ -3,18 +3,20 @@ import { SopsRunner } from '../sops/sopsRunner';
 import { SopsDetector } from '../sops/sopsDetector';
 import { handleError } from '../utils/errorHandler';
 import { logger } from '../services/loggerService';
+import { resolveTargetEditor } from '../utils/resourceUtils';
 
 /**
  * Register the decrypt command.
- * Decrypts the active file in-place, replacing encrypted content with plaintext.
+ * Decrypts the active (or given) file in-place, replacing encrypted content with plaintext.
  */
 export function registerDecryptCommand(
     sopsRunner: SopsRunner,
     sopsDetector: SopsDetector,
     onDecrypted: (uri: vscode.Uri) => Promise<void>
 ): vscode.Disposable {
-    return vscode.commands.registerCommand('sopsie.decrypt', async () => {
-        const editor = vscode.window.activeTextEditor;
+    return vscode.commands.registerCommand('sopsie.decrypt', async (resource?: unknown) => {
+        // Support both editor context and explorer/tree view context
+        const editor = await resolveTargetEditor(resource);
         if (!editor) {
             logger.debug('Decrypt command: No active editor');
             vscode.window.showWarningMessage('No active editor');
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { formatRef, GitRunner, GitCommit } from '../git/gitRunner';
+import { DecryptedGitContentProvider } from '../providers/decryptedGitContentProvider';
+import { CommitNode } from '../providers/fileHistoryTreeProvider';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
+
+interface RevisionPickItem extends vscode.QuickPickItem {
+    /** Commit hash, or undefined for the working tree */
+    ref?: string;
+}
+
+/**
+ * Resolve the local file a diff command should act on.
+ * Accepts editor, explorer, tree view and SCM resource contexts.
+ */
+function resolveDiffTarget(resource: unknown, commandName: string): vscode.Uri | undefined {
+    const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
+    if (!uri) {
+        logger.debug(`${commandName} command: No file selected`);
+        vscode.window.showWarningMessage('No file selected');
+        return undefined;
+    }
+    if (uri.scheme !== 'file') {
+        logger.debug(`${commandName} command: Skipping non-file scheme`);
+        vscode.window.showWarningMessage('Can only diff local files');
+        return undefined;
+    }
+    return uri;
+}
+
+/**
+ * Open a diff of the decrypted content of a file at two revisions
+ */
+export async function openDecryptedDiff(
+    uri: vscode.Uri,
+    leftRef: string | undefined,
+    rightRef: string | undefined,
+    leftLabel: string,
+    rightLabel: string
+): Promise<void> {
+    const title = `${path.basename(uri.fsPath)} (${leftLabel} ↔ ${rightLabel}, decrypted)`;
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        DecryptedGitContentProvider.createUri(uri, leftRef),
+        DecryptedGitContentProvider.createUri(uri, rightRef),
+        title,
+        { preview: true }
+    );
+}
+
+function toPickItem(commit: GitCommit): RevisionPickItem {
+    return {
+        label: `$(git-commit) ${commit.shortHash}`,
+        description: commit.subject,
+        detail: `${commit.author}, ${new Date(commit.date).toLocaleString()}`,
+        ref: commit.hash
+    };
+}
+
+/**
+ * Register the diff with HEAD command.
+ * Compares the decrypted working tree content of a file with its decrypted content at HEAD.
+ */
+export function registerDiffWithHeadCommand(gitRunner: GitRunner): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.diffDecrypted',
+        async (resource?: unknown) => {
+            const uri = resolveDiffTarget(resource, 'DiffDecrypted');
+            if (!uri) {
+                return;
+            }
+
+            logger.debug(`DiffDecrypted command: Processing ${uri.fsPath}`);
+
+            if (!await gitRunner.getRepositoryRoot(uri.fsPath)) {
+                vscode.window.showWarningMessage('File is not in a git repository');
+                return;
+            }
+
+            try {
+                await openDecryptedDiff(uri, 'HEAD', undefined, 'HEAD', 'Working Tree');
+            } catch (error) {
+                logger.debug(`DiffDecrypted command: Failed for ${uri.fsPath}`);
+                vscode.window.showErrorMessage(`Failed to open decrypted diff: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+}
+
+/**
+ * Register the diff between revisions command.
+ * Lets the user pick two commits of the file (or the working tree) and diffs their decrypted content.
+ * Revisions may also be passed as arguments by other features.
+ */
+export function registerDiffRevisionsCommand(gitRunner: GitRunner): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.diffDecryptedRevisions',
+        async (resource?: unknown, leftRef?: string, rightRef?: string) => {
+            const uri = resolveDiffTarget(resource, 'DiffDecryptedRevisions');
+            if (!uri) {
+                return;
+            }
+
+            logger.debug(`DiffDecryptedRevisions command: Processing ${uri.fsPath}`);
+
+            try {
+                if (!leftRef) {
+                    const picked = await pickRevisions(gitRunner, uri);
+                    if (!picked) {
+                        return;
+                    }
+                    [leftRef, rightRef] = picked;
+                }
+
+                await openDecryptedDiff(
+                    uri,
+                    leftRef,
+                    rightRef,
+                    formatRef(leftRef),
+                    rightRef ? formatRef(rightRef) : 'Working Tree'
+                );
+            } catch (error) {
+                logger.debug(`DiffDecryptedRevisions command: Failed for ${uri.fsPath}`);
+                vscode.window.showErrorMessage(`Failed to open decrypted diff: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+}
+
+/**
+ * Register the open decrypted revision command.
+ * Opens the decrypted content of a file at a commit from the SOPS File History view.
+ */
+export function registerOpenRevisionCommand(): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.openDecryptedRevision',
+        async (node?: unknown) => {
+            if (!(node instanceof CommitNode)) {
+                logger.debug('OpenDecryptedRevision command: No commit selected');
+                return;
+            }
+
+            logger.debug(`OpenDecryptedRevision command: Opening ${node.fileUri.fsPath} at ${node.commit.shortHash}`);
+
+            try {
+                const doc = await vscode.workspace.openTextDocument(
+                    DecryptedGitContentProvider.createUri(node.fileUri, node.commit.hash)
+                );
+                await vscode.window.showTextDocument(doc, { preview: true });
+            } catch (error) {
+                logger.debug(`OpenDecryptedRevision command: Failed for ${node.fileUri.fsPath}`);
+                vscode.window.showErrorMessage(`Failed to open decrypted revision: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+}
+
+/**
+ * Ask the user for a base commit and a newer revision (commit or working tree) of a file.
+ * Returns undefined if the user cancelled or the file has no history.
+ */
+async function pickRevisions(
+    gitRunner: GitRunner,
+    uri: vscode.Uri
+): Promise<[string, string | undefined] | undefined> {
+    const commits = await gitRunner.getFileHistory(uri.fsPath);
+    if (commits.length === 0) {
+        vscode.window.showInformationMessage('No git history found for this file');
+        return undefined;
+    }
+
+    const commitItems = commits.map(toPickItem);
+    const base = await vscode.window.showQuickPick(commitItems, {
+        title: 'Decrypted Diff: Select base revision',
+        matchOnDescription: true
+    });
+    if (!base?.ref) {
+        return undefined;
+    }
+
+    const newerItems: RevisionPickItem[] = [
+        { label: '$(file) Working Tree', description: 'Current file on disk' },
+        ...commitItems.slice(0, commitItems.indexOf(base))
+    ];
+    const target = await vscode.window.showQuickPick(newerItems, {
+        title: `Decrypted Diff: Compare ${formatRef(base.ref)} with`,
+        matchOnDescription: true
+    });
+    if (!target) {
+        return undefined;
+    }
+
+    return [base.ref, target.ref];
+}
@@ -5,7 +5,7 @@ import { getErrorMessage } from '../utils/errorUtils';
 
 /**
  * Register the edit-in-place command.
- * Opens an editable temporary file with decrypted content that
+ * Opens an editable in-memory document with decrypted content that
  * encrypts back to the original file on save.
  */
 export function registerEditInPlaceCommand(
@@ -31,7 +31,7 @@ export function registerEditInPlaceCommand(
             }
 
             try {
-                logger.debug('EditInPlace command: Opening editable temp file');
+                logger.debug('EditInPlace command: Opening editable document');
                 await decryptedViewService.openEditInPlace(uri, {
                     preserveFocus: false,
                     showInfoMessage: true
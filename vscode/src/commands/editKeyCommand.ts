@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { SopsRunner } from '../sops/sopsRunner';
+import { SopsDetector } from '../sops/sopsDetector';
+import {
+    findKeyPaths,
+    formatKeyPath,
+    KeyPathEntry,
+    parseKeyPath,
+    SopsKeyPath,
+    supportsKeyPaths,
+    toSopsExpression
+} from '../sops/sopsKeyPaths';
+import { DecryptedContentProvider } from '../providers/decryptedContentProvider';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri, reloadFileInEditor } from '../utils/resourceUtils';
+
+interface KeyPickItem extends vscode.QuickPickItem {
+    /** Existing key, or undefined for "Add Key..." */
+    entry?: KeyPathEntry;
+}
+
+interface ActionPickItem extends vscode.QuickPickItem {
+    action: 'set' | 'rename' | 'delete';
+}
+
+/**
+ * Convert user input to the JSON value passed to `sops set`.
+ * Keeps numbers and booleans typed when the existing value had that type; everything else is a string.
+ */
+function toJsonValue(input: string, valueType: string | undefined): string {
+    const trimmed = input.trim();
+    if ((valueType === 'int' || valueType === 'float') && trimmed !== '' && Number.isFinite(Number(trimmed))) {
+        return String(Number(trimmed));
+    }
+    if (valueType === 'bool' && /^(true|false)$/i.test(trimmed)) {
+        return trimmed.toLowerCase();
+    }
+    return JSON.stringify(input);
+}
+
+function toKeyPickItem(entry: KeyPathEntry): KeyPickItem {
+    return {
+        label: `${entry.branch ? '$(list-tree)' : entry.encrypted ? '$(lock)' : '$(unlock)'} ${formatKeyPath(entry.path)}`,
+        description: entry.branch ? 'group' : entry.valueType,
+        entry
+    };
+}
+
+async function promptForValue(keyPath: SopsKeyPath): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+        title: `SOPS: Set ${formatKeyPath(keyPath)}`,
+        prompt: 'New value (stored encrypted if the creation rule encrypts this key)',
+        password: true,
+        ignoreFocusOut: true
+    });
+}
+
+/**
+ * Ask for a key and what to do with it, then apply the change with sops set/unset.
+ * Returns a description of the change, or undefined if the user cancelled.
+ */
+async function runEditKeyFlow(
+    sopsRunner: SopsRunner,
+    uri: vscode.Uri,
+    entries: KeyPathEntry[]
+): Promise<string | undefined> {
+    const picked = await vscode.window.showQuickPick<KeyPickItem>(
+        [{ label: '$(add) Add Key...', alwaysShow: true }, ...entries.map(toKeyPickItem)],
+        { title: 'SOPS: Edit Key', placeHolder: 'Select a key to change, or add a new one', matchOnDescription: true }
+    );
+    if (!picked) {
+        return undefined;
+    }
+
+    const existingPaths = new Set(entries.map((entry) => toSopsExpression(entry.path)));
+
+    if (!picked.entry) {
+        const pathInput = await vscode.window.showInputBox({
+            title: 'SOPS: Add Key',
+            prompt: 'Key path, e.g. database.password or hosts[0]',
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                const keyPath = parseKeyPath(value);
+                if (!keyPath) {
+                    return 'Enter a key path such as database.password or hosts[0]';
+                }
+                return existingPaths.has(toSopsExpression(keyPath)) ? 'Key already exists' : undefined;
+            }
+        });
+        const keyPath = pathInput ? parseKeyPath(pathInput) : null;
+        if (!keyPath) {
+            return undefined;
+        }
+
+        const value = await promptForValue(keyPath);
+        if (value === undefined) {
+            return undefined;
+        }
+
+        await sopsRunner.setValue(uri.fsPath, keyPath, JSON.stringify(value));
+        return `Added ${formatKeyPath(keyPath)}`;
+    }
+
+    const entry = picked.entry;
+    const displayPath = formatKeyPath(entry.path);
+    const lastSegment = entry.path[entry.path.length - 1];
+    const actions: ActionPickItem[] = [];
+    if (!entry.branch) {
+        actions.push({ label: '$(edit) Set Value', action: 'set' });
+    }
+    if (typeof lastSegment === 'string') {
+        actions.push({ label: '$(symbol-key) Rename', action: 'rename' });
+    }
+    actions.push({ label: '$(trash) Delete', action: 'delete' });
+
+    const action = await vscode.window.showQuickPick(actions, { title: `SOPS: ${displayPath}` });
+    if (!action) {
+        return undefined;
+    }
+
+    switch (action.action) {
+        case 'set': {
+            const value = await promptForValue(entry.path);
+            if (value === undefined) {
+                return undefined;
+            }
+            await sopsRunner.setValue(uri.fsPath, entry.path, toJsonValue(value, entry.valueType));
+            return `Updated ${displayPath}`;
+        }
+
+        case 'rename': {
+            const parentPath = entry.path.slice(0, -1);
+            const newName = await vscode.window.showInputBox({
+                title: `SOPS: Rename ${displayPath}`,
+                prompt: 'New key name',
+                value: String(lastSegment),
+                ignoreFocusOut: true,
+                validateInput: (value) => {
+                    if (value.trim() === '') {
+                        return 'Key name cannot be empty';
+                    }
+                    return existingPaths.has(toSopsExpression([...parentPath, value.trim()])) ? 'Key already exists' : undefined;
+                }
+            });
+            if (!newName || newName.trim() === lastSegment) {
+                return undefined;
+            }
+
+            // Copy the value to the new key before removing the old one, so nothing is lost on failure
+            const newPath = [...parentPath, newName.trim()];
+            const raw = await sopsRunner.extractValue(uri.fsPath, entry.path, true);
+            const jsonValue = !entry.branch && entry.valueType === 'str' ? JSON.stringify(raw) : raw.trim();
+            await sopsRunner.setValue(uri.fsPath, newPath, jsonValue);
+            await sopsRunner.unsetValue(uri.fsPath, entry.path);
+            return `Renamed ${displayPath} to ${formatKeyPath(newPath)}`;
+        }
+
+        case 'delete': {
+            const confirm = await vscode.window.showWarningMessage(
+                `Delete ${displayPath} from the encrypted file?`,
+                { modal: true },
+                'Delete'
+            );
+            if (confirm !== 'Delete') {
+                return undefined;
+            }
+            await sopsRunner.unsetValue(uri.fsPath, entry.path);
+            return `Deleted ${displayPath}`;
+        }
+    }
+}
+
+/**
+ * Register the edit key command.
+ * Sets, renames or deletes a single key path of an encrypted YAML/JSON file with
+ * `sops set` / `sops unset`, without decrypting the whole file into an editor.
+ */
+export function registerEditKeyCommand(
+    sopsRunner: SopsRunner,
+    sopsDetector: SopsDetector,
+    decryptedContentProvider: DecryptedContentProvider,
+    onUpdated: (uri: vscode.Uri) => Promise<void>
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.editKey',
+        async (resource?: unknown) => {
+            // Support editor, explorer and tree view contexts
+            const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
+            if (!uri) {
+                logger.debug('EditKey command: No file selected');
+                vscode.window.showWarningMessage('No file selected');
+                return;
+            }
+
+            logger.debug(`EditKey command: Processing ${uri.fsPath}`);
+
+            if (uri.scheme !== 'file') {
+                logger.debug('EditKey command: Skipping non-file scheme');
+                vscode.window.showWarningMessage('Can only edit keys of local files');
+                return;
+            }
+
+            if (!supportsKeyPaths(uri.fsPath)) {
+                vscode.window.showInformationMessage('Editing single keys is only supported for YAML and JSON files');
+                return;
+            }
+
+            // SOPS edits the file on disk and the editor is reloaded afterwards
+            const isDirty = vscode.workspace.textDocuments.some(
+                (doc) => doc.uri.toString() === uri.toString() && doc.isDirty
+            );
+            if (isDirty) {
+                vscode.window.showWarningMessage('Save or revert your unsaved changes before editing a single key');
+                return;
+            }
+
+            let entries: KeyPathEntry[];
+            try {
+                const content = await fs.promises.readFile(uri.fsPath, 'utf8');
+                if (!sopsDetector.isContentEncrypted(content)) {
+                    logger.debug('EditKey command: File is not encrypted');
+                    vscode.window.showInformationMessage('File is not SOPS-encrypted');
+                    return;
+                }
+                entries = findKeyPaths(content, uri.fsPath);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to read file: ${getErrorMessage(error)}`);
+                return;
+            }
+
+            try {
+                const change = await runEditKeyFlow(sopsRunner, uri, entries);
+                if (!change) {
+                    logger.debug('EditKey command: User cancelled');
+                    return;
+                }
+
+                await reloadFileInEditor(uri);
+                decryptedContentProvider.refresh(uri.fsPath);
+                await onUpdated(uri);
+
+                logger.debug(`EditKey command: ${change} in ${uri.fsPath}`);
+                vscode.window.showInformationMessage(change);
+            } catch (error) {
+                logger.error(`EditKey command: Failed for ${uri.fsPath}: ${getErrorMessage(error)}`);
+                vscode.window.showErrorMessage(`Failed to edit key: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+}
@@ -3,18 +3,20 @@ import { SopsRunner } from '../sops/sopsRunner';
 import { SopsDetector } from '../sops/sopsDetector';
 import { handleError } from '../utils/errorHandler';
 import { logger } from '../services/loggerService';
+import { resolveTargetEditor } from '../utils/resourceUtils';
 
 /**
  * Register the encrypt command.
- * Encrypts the active file in-place using SOPS and the matching creation rule.
+ * Encrypts the active (or given) file in-place using SOPS and the matching creation rule.
  */
 export function registerEncryptCommand(
     sopsRunner: SopsRunner,
     sopsDetector: SopsDetector,
     onEncrypted: (uri: vscode.Uri) => Promise<void>
 ): vscode.Disposable {
-    return vscode.commands.registerCommand('sopsie.encrypt', async () => {
-        const editor = vscode.window.activeTextEditor;
+    return vscode.commands.registerCommand('sopsie.encrypt', async (resource?: unknown) => {
+        // Support both editor context and explorer/tree view context
+        const editor = await resolveTargetEditor(resource);
         if (!editor) {
             logger.debug('Encrypt command: No active editor');
             vscode.window.showWarningMessage('No active editor');
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitRunner } from '../git/gitRunner';
+import { ConfigManager } from '../config/configManager';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
+
+// Name of the bundled check script inside the hooks directory
+const HOOK_SCRIPT_NAME = 'sopsie-pre-commit.js';
+
+// Records the explicit config for the check script, which cannot read VS Code settings
+const HOOK_CONFIG_NAME = 'sopsie-pre-commit.json';
+
+// Marks the hook lines we own, so reinstalling only refreshes the script
+const HOOK_MARKER = '# SOPSie: block plaintext SOPS files';
+
+const HOOK_BLOCK = [
+    HOOK_MARKER,
+    'if command -v node >/dev/null 2>&1; then',
+    `    node "$(dirname "$0")/${HOOK_SCRIPT_NAME}" || exit 1`,
+    'else',
+    '    echo "SOPSie: node not found, skipping the SOPS encryption check" >&2',
+    'fi',
+    ''
+].join('\n');
+
+/**
+ * Resolve the directory whose repository gets the hook: the given or active file's folder,
+ * or a workspace folder
+ */
+async function pickDirectory(resource: unknown): Promise<string | undefined> {
+    const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
+    if (uri?.scheme === 'file') {
+        return path.dirname(uri.fsPath);
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length <= 1) {
+        return folders[0]?.uri.fsPath;
+    }
+    const folder = await vscode.window.showWorkspaceFolderPick({
+        placeHolder: 'Select the repository to install the pre-commit hook in'
+    });
+    return folder?.uri.fsPath;
+}
+
+/**
+ * Add our block to a hook script, after the shebang line if there is one
+ */
+function insertHookBlock(existing: string): string {
+    if (!existing.startsWith('#!')) {
+        return `${HOOK_BLOCK}${existing}`;
+    }
+    const firstLineEnd = existing.indexOf('\n');
+    if (firstLineEnd === -1) {
+        return `${existing}\n${HOOK_BLOCK}`;
+    }
+    return `${existing.slice(0, firstLineEnd + 1)}${HOOK_BLOCK}${existing.slice(firstLineEnd + 1)}`;
+}
+
+/**
+ * Register the install pre-commit hook command.
+ * Copies the bundled check script into the repository's hooks directory and calls it
+ * from the pre-commit hook, so commits made outside VS Code are checked as well.
+ * The config set with sopsie.configPath or SOPS_CONFIG is recorded for the script at install time.
+ * @param hookScriptPath Path of the bundled hook script (dist/preCommitHook.js)
+ */
+export function registerInstallHookCommand(
+    gitRunner: GitRunner,
+    configManager: ConfigManager,
+    hookScriptPath: string
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.installPreCommitHook',
+        async (resource?: unknown) => {
+            const directory = await pickDirectory(resource);
+            if (!directory) {
+                logger.debug('InstallPreCommitHook command: No folder selected');
+                return;
+            }
+
+            const hooksDir = await gitRunner.getHooksDirectory(directory);
+            if (!hooksDir) {
+                vscode.window.showWarningMessage('Folder is not in a git repository');
+                return;
+            }
+
+            const hookPath = path.join(hooksDir, 'pre-commit');
+            try {
+                await fs.promises.mkdir(hooksDir, { recursive: true });
+
+                let existing: string | undefined;
+                try {
+                    existing = await fs.promises.readFile(hookPath, 'utf8');
+                } catch {
+                    existing = undefined;
+                }
+
+                if (existing !== undefined && !existing.includes(HOOK_MARKER)) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `${hookPath} already exists. Add the SOPSie check to the start of it?`,
+                        { modal: true },
+                        'Add Check'
+                    );
+                    if (choice !== 'Add Check') {
+                        return;
+                    }
+                }
+
+                // Reinstalling refreshes the script with this version's rule matching
+                await fs.promises.copyFile(hookScriptPath, path.join(hooksDir, HOOK_SCRIPT_NAME));
+                const configPath = configManager.getExplicitConfigPath(directory);
+                const configRecordPath = path.join(hooksDir, HOOK_CONFIG_NAME);
+                if (configPath) {
+                    await fs.promises.writeFile(configRecordPath, `${JSON.stringify({ configPath }, null, 2)}\n`);
+                } else {
+                    await fs.promises.rm(configRecordPath, { force: true });
+                }
+
+                if (existing === undefined) {
+                    await fs.promises.writeFile(hookPath, `#!/bin/sh\n${HOOK_BLOCK}`, { mode: 0o755 });
+                } else if (!existing.includes(HOOK_MARKER)) {
+                    await fs.promises.writeFile(hookPath, insertHookBlock(existing));
+                    await fs.promises.chmod(hookPath, 0o755);
+                }
+
+                logger.info(`InstallPreCommitHook command: Installed in ${hooksDir}`);
+                vscode.window.showInformationMessage(
+                    existing?.includes(HOOK_MARKER)
+                        ? 'SOPSie pre-commit hook updated'
+                        : 'SOPSie pre-commit hook installed. Commits of unencrypted SOPS files will be refused.'
+                );
+            } catch (error) {
+                logger.error(`InstallPreCommitHook command: Failed for ${hooksDir}: ${getErrorMessage(error)}`);
+                vscode.window.showErrorMessage(`Failed to install pre-commit hook: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+}
@@ -1,23 +1,14 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
 import { SopsRunner } from '../sops/sopsRunner';
 import { SopsDetector } from '../sops/sopsDetector';
 import { SettingsService } from '../services/settingsService';
 import { handleError } from '../utils/errorHandler';
 import { logger } from '../services/loggerService';
-
-/**
- * Reload a file in the editor after in-place modification by SOPS CLI.
- * Uses VS Code's revert command to refresh the editor content from disk.
- */
-async function reloadFileInEditor(uri: vscode.Uri): Promise<void> {
-    const openDoc = vscode.workspace.textDocuments.find(
-        doc => doc.uri.toString() === uri.toString()
-    );
-    if (openDoc) {
-        logger.debug(`Reloading file in editor: ${uri.fsPath}`);
-        await vscode.commands.executeCommand('workbench.action.files.revert', uri);
-    }
-}
+import { getResourceUri, reloadFileInEditor } from '../utils/resourceUtils';
+import { getErrorMessage } from '../utils/errorUtils';
+import { runWithConcurrency } from '../utils/concurrency';
 
 /**
  * Validate that a URI is a local file scheme.
@@ -44,9 +35,9 @@ export function registerUpdateKeysCommand(
 ): vscode.Disposable {
     return vscode.commands.registerCommand(
         'sopsie.updateKeys',
-        async (resourceUri?: vscode.Uri) => {
-            // Support both editor context and explorer context
-            const uri = resourceUri ?? vscode.window.activeTextEditor?.document.uri;
+        async (resource?: unknown) => {
+            // Support editor, explorer and tree view contexts
+            const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
 
             if (!uri) {
                 logger.debug('UpdateKeys command: No file selected');
@@ -121,9 +112,9 @@ export function registerRotateCommand(
 ): vscode.Disposable {
     return vscode.commands.registerCommand(
         'sopsie.rotate',
-        async (resourceUri?: vscode.Uri) => {
-            // Support both editor context and explorer context
-            const uri = resourceUri ?? vscode.window.activeTextEditor?.document.uri;
+        async (resource?: unknown) => {
+            // Support editor, explorer and tree view contexts
+            const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
 
             if (!uri) {
                 logger.debug('Rotate command: No file selected');
@@ -185,3 +176,242 @@ export function registerRotateCommand(
         }
     );
 }
+
+/**
+ * A bulk key operation: the SOPS call plus the wording used in prompts and reports
+ */
+interface BulkKeyOperation {
+    commandId: string;
+    logName: string;
+    progressTitle: string;
+    confirmMessage: (count: number) => string;
+    confirmButton: string;
+    shouldConfirm: () => boolean;
+    pastTense: string;
+    run: (filePath: string) => Promise<void>;
+}
+
+interface BulkResult {
+    uri: vscode.Uri;
+    error?: string;
+}
+
+/**
+ * Collect the encrypted files a bulk command should act on.
+ * Explorer multi-select passes (clicked, selected[]); folders are expanded to every
+ * rule-matched file inside them; no arguments means the whole workspace.
+ */
+async function collectBulkTargets(
+    configManager: ConfigManager,
+    sopsDetector: SopsDetector,
+    clicked: unknown,
+    selected: unknown
+): Promise<vscode.Uri[]> {
+    let roots = (Array.isArray(selected) ? selected : [clicked])
+        .map(getResourceUri)
+        .filter((uri): uri is vscode.Uri => uri !== undefined && uri.scheme === 'file');
+
+    if (roots.length === 0) {
+        roots = (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri);
+    }
+
+    const candidates = new Map<string, vscode.Uri>();
+    for (const root of roots) {
+        let isDirectory = false;
+        try {
+            isDirectory = (await vscode.workspace.fs.stat(root)).type === vscode.FileType.Directory;
+        } catch {
+            continue;
+        }
+
+        if (isDirectory) {
+            const matches = await configManager.findMatchingFiles(root);
+            matches.forEach((match) => candidates.set(match.uri.toString(), match.uri));
+        } else {
+            candidates.set(root.toString(), root);
+        }
+    }
+
+    const targets: vscode.Uri[] = [];
+    for (const uri of candidates.values()) {
+        if (await sopsDetector.isEncrypted(uri)) {
+            targets.push(uri);
+        }
+    }
+    return targets.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Build a markdown report of a bulk operation
+ */
+function buildBulkReport(operation: BulkKeyOperation, results: BulkResult[], skipped: vscode.Uri[]): string {
+    const succeeded = results.filter((r) => !r.error);
+    const failed = results.filter((r) => r.error);
+    const lines = [
+        `# SOPS: ${operation.logName} report`,
+        '',
+        `- ${operation.pastTense}: ${succeeded.length}`,
+        `- Failed: ${failed.length}`,
+        `- Skipped (cancelled): ${skipped.length}`,
+        ''
+    ];
+
+    if (failed.length > 0) {
+        lines.push('## Failed', '');
+        failed.forEach((r) => lines.push(`- \`${vscode.workspace.asRelativePath(r.uri)}\`: ${r.error}`));
+        lines.push('');
+    }
+    if (succeeded.length > 0) {
+        lines.push(`## ${operation.pastTense}`, '');
+        succeeded.forEach((r) => lines.push(`- \`${vscode.workspace.asRelativePath(r.uri)}\``));
+        lines.push('');
+    }
+    if (skipped.length > 0) {
+        lines.push('## Skipped', '');
+        skipped.forEach((uri) => lines.push(`- \`${vscode.workspace.asRelativePath(uri)}\``));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Register a folder/workspace variant of a key command.
+ * Runs the operation on every matching encrypted file with bounded concurrency,
+ * cancellable progress and a summary report.
+ */
+function registerBulkKeyCommand(
+    operation: BulkKeyOperation,
+    configManager: ConfigManager,
+    sopsDetector: SopsDetector,
+    settingsService: SettingsService,
+    onUpdated: (uri: vscode.Uri) => Promise<void>
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        operation.commandId,
+        async (clicked?: unknown, selected?: unknown) => {
+            const targets = await collectBulkTargets(configManager, sopsDetector, clicked, selected);
+            logger.debug(`${operation.logName} command: Found ${targets.length} encrypted files`);
+
+            if (targets.length === 0) {
+                vscode.window.showInformationMessage('No SOPS-encrypted files found in the selection');
+                return;
+            }
+
+            if (operation.shouldConfirm()) {
+                const confirm = await vscode.window.showWarningMessage(
+                    operation.confirmMessage(targets.length),
+                    { modal: true },
+                    operation.confirmButton
+                );
+
+                if (confirm !== operation.confirmButton) {
+                    logger.debug(`${operation.logName} command: User cancelled`);
+                    return;
+                }
+            }
+
+            const results: BulkResult[] = [];
+            const started = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: operation.progressTitle,
+                    cancellable: true
+                },
+                (progress, token) => runWithConcurrency(
+                    targets,
+                    settingsService.getBulkConcurrency(),
+                    async (uri) => {
+                        try {
+                            await operation.run(uri.fsPath);
+                            await reloadFileInEditor(uri);
+                            await onUpdated(uri);
+                            results.push({ uri });
+                        } catch (error) {
+                            logger.error(`${operation.logName} command: Failed for ${uri.fsPath}: ${getErrorMessage(error)}`);
+                            results.push({ uri, error: getErrorMessage(error) });
+                        }
+                        progress.report({
+                            increment: 100 / targets.length,
+                            message: `${results.length}/${targets.length} ${path.basename(uri.fsPath)}`
+                        });
+                    },
+                    token
+                )
+            );
+
+            const skipped = targets.slice(started);
+            const failedCount = results.filter((r) => r.error).length;
+            const summary = `${operation.logName}: ${results.length - failedCount} ${operation.pastTense.toLowerCase()}, ${failedCount} failed` +
+                (skipped.length > 0 ? `, ${skipped.length} skipped` : '');
+            logger.info(summary);
+
+            const show = failedCount > 0
+                ? vscode.window.showWarningMessage(summary, 'Show Report')
+                : vscode.window.showInformationMessage(summary, 'Show Report');
+            if (await show === 'Show Report') {
+                const doc = await vscode.workspace.openTextDocument({
+                    content: buildBulkReport(operation, results, skipped),
+                    language: 'markdown'
+                });
+                await vscode.window.showTextDocument(doc, { preview: true });
+            }
+        }
+    );
+}
+
+/**
+ * Register the bulk updateKeys command for folders, multi-selections and the workspace.
+ */
+export function registerBulkUpdateKeysCommand(
+    sopsRunner: SopsRunner,
+    sopsDetector: SopsDetector,
+    configManager: ConfigManager,
+    settingsService: SettingsService,
+    onUpdated: (uri: vscode.Uri) => Promise<void>
+): vscode.Disposable {
+    return registerBulkKeyCommand(
+        {
+            commandId: 'sopsie.updateKeysBulk',
+            logName: 'Update keys',
+            progressTitle: 'Updating SOPS keys...',
+            confirmMessage: (count) => `Update SOPS keys for ${count} files? Each file will be re-encrypted with keys from .sops.yaml, which may change who can access it.`,
+            confirmButton: 'Update Keys',
+            shouldConfirm: () => settingsService.shouldConfirmUpdateKeys(),
+            pastTense: 'Updated',
+            run: (filePath) => sopsRunner.updateKeys(filePath)
+        },
+        configManager,
+        sopsDetector,
+        settingsService,
+        onUpdated
+    );
+}
+
+/**
+ * Register the bulk rotate command for folders, multi-selections and the workspace.
+ */
+export function registerBulkRotateCommand(
+    sopsRunner: SopsRunner,
+    sopsDetector: SopsDetector,
+    configManager: ConfigManager,
+    settingsService: SettingsService,
+    onRotated: (uri: vscode.Uri) => Promise<void>
+): vscode.Disposable {
+    return registerBulkKeyCommand(
+        {
+            commandId: 'sopsie.rotateBulk',
+            logName: 'Rotate',
+            progressTitle: 'Rotating SOPS data keys...',
+            confirmMessage: (count) => `Rotate the data key of ${count} files? All values will be re-encrypted with new data keys.`,
+            confirmButton: 'Rotate',
+            shouldConfirm: () => settingsService.shouldConfirmRotate(),
+            pastTense: 'Rotated',
+            run: (filePath) => sopsRunner.rotate(filePath)
+        },
+        configManager,
+        sopsDetector,
+        settingsService,
+        onRotated
+    );
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseSopsMetadata } from '../sops/sopsMetadata';
+import { SopsMetadata, SopsRecipient } from '../types';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
+
+/**
+ * Register the show metadata command.
+ * Displays the recipients and settings from a file's sops metadata block in a webview,
+ * so users can see who can decrypt a file without reading raw ciphertext.
+ */
+export function registerShowMetadataCommand(): vscode.Disposable {
+    let panel: vscode.WebviewPanel | undefined;
+
+    return vscode.commands.registerCommand(
+        'sopsie.showMetadata',
+        async (resource?: unknown) => {
+            // Support editor, explorer and tree view contexts
+            const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
+            if (!uri) {
+                logger.debug('ShowMetadata command: No file selected');
+                vscode.window.showWarningMessage('No file selected');
+                return;
+            }
+
+            logger.debug(`ShowMetadata command: Processing ${uri.fsPath}`);
+
+            let metadata: SopsMetadata | null;
+            try {
+                const content = await vscode.workspace.fs.readFile(uri);
+                metadata = parseSopsMetadata(Buffer.from(content).toString('utf-8'), uri.fsPath);
+            } catch (error) {
+                logger.debug(`ShowMetadata command: Failed to read ${uri.fsPath}`);
+                vscode.window.showErrorMessage(`Failed to read file: ${getErrorMessage(error)}`);
+                return;
+            }
+
+            if (!metadata) {
+                logger.debug('ShowMetadata command: No sops metadata found');
+                vscode.window.showInformationMessage('File is not SOPS-encrypted');
+                return;
+            }
+
+            const fileName = path.basename(uri.fsPath);
+            if (!panel) {
+                panel = vscode.window.createWebviewPanel(
+                    'sopsie.metadata',
+                    `SOPS Metadata: ${fileName}`,
+                    vscode.ViewColumn.Beside,
+                    { enableScripts: false }
+                );
+                panel.onDidDispose(() => {
+                    panel = undefined;
+                });
+            } else {
+                panel.title = `SOPS Metadata: ${fileName}`;
+                panel.reveal(vscode.ViewColumn.Beside);
+            }
+
+            panel.webview.html = renderMetadataHtml(fileName, metadata);
+        }
+    );
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function renderRecipientRows(recipients: SopsRecipient[]): string {
+    if (recipients.length === 0) {
+        return '<tr><td colspan="3"><em>No recipients</em></td></tr>';
+    }
+
+    return recipients.map((recipient) => {
+        const details = Object.entries(recipient.details ?? {})
+            .map(([key, value]) => `${escapeHtml(key)}: ${escapeHtml(value)}`)
+            .join('<br>');
+        return `<tr>
+            <td>${escapeHtml(recipient.type)}</td>
+            <td><code>${escapeHtml(recipient.id)}</code>${details ? `<br><small>${details}</small>` : ''}</td>
+            <td>${escapeHtml(recipient.createdAt ?? '')}</td>
+        </tr>`;
+    }).join('');
+}
+
+function renderMetadataHtml(fileName: string, metadata: SopsMetadata): string {
+    const groups = metadata.keyGroups.map((recipients, index) => `
+        ${metadata.usesKeyGroups ? `<h4>Key group ${index + 1}</h4>` : ''}
+        <table>
+            <tr><th>Type</th><th>Recipient</th><th>Created</th></tr>
+            ${renderRecipientRows(recipients)}
+        </table>`).join('');
+
+    const settings: [string, string | number | boolean | undefined][] = [
+        ['Format', metadata.format],
+        ['SOPS version', metadata.version],
+        ['Last modified', metadata.lastModified],
+        ['Shamir threshold', metadata.shamirThreshold],
+        ['encrypted_regex', metadata.encryptedRegex],
+        ['unencrypted_regex', metadata.unencryptedRegex],
+        ['encrypted_suffix', metadata.encryptedSuffix],
+        ['unencrypted_suffix', metadata.unencryptedSuffix],
+        ['encrypted_comment_regex', metadata.encryptedCommentRegex],
+        ['unencrypted_comment_regex', metadata.unencryptedCommentRegex],
+        ['mac_only_encrypted', metadata.macOnlyEncrypted],
+        ['MAC', metadata.mac]
+    ];
+    const settingRows = settings
+        .filter(([, value]) => value !== undefined)
+        .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td><code>${escapeHtml(String(value))}</code></td></tr>`)
+        .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        table { border-collapse: collapse; margin-bottom: 1em; }
+        th, td { text-align: left; vertical-align: top; padding: 4px 12px 4px 0; }
+        code { word-break: break-all; }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(fileName)}</h2>
+    <h3>Recipients</h3>
+    ${groups}
+    <h3>Settings</h3>
+    <table>${settingRows}</table>
+</body>
+</html>`;
+}
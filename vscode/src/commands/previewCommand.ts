@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { DecryptedViewService } from '../services/decryptedViewService';
 import { logger } from '../services/loggerService';
 import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
 
 /**
  * Register the show decrypted preview command.
@@ -12,15 +13,15 @@ export function registerPreviewCommand(
 ): vscode.Disposable {
     return vscode.commands.registerCommand(
         'sopsie.showDecryptedPreview',
-        async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
+        async (resource?: unknown) => {
+            // Support both editor context and explorer/tree view context
+            const uri = getResourceUri(resource) ?? vscode.window.activeTextEditor?.document.uri;
+            if (!uri) {
                 logger.debug('Preview command: No active editor');
                 vscode.window.showWarningMessage('No active editor');
                 return;
             }
 
-            const uri = editor.document.uri;
             logger.debug(`Preview command: Processing ${uri.fsPath}`);
 
             if (uri.scheme !== 'file') {
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import {
+    ConfigUnderTest,
+    RuleTesterProvider,
+    describeRule,
+    findRuleOffsets,
+    parseConfigUnderTest
+} from '../providers/ruleTesterProvider';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
+
+/**
+ * Read a config's current text, including unsaved edits
+ */
+async function readConfigText(configUri: vscode.Uri): Promise<string> {
+    const openDocument = vscode.workspace.textDocuments.find(
+        (doc) => doc.uri.toString() === configUri.toString()
+    );
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    return Buffer.from(await vscode.workspace.fs.readFile(configUri)).toString('utf-8');
+}
+
+/**
+ * Resolve the config to test: the given or active config, or one picked from the loaded configs
+ */
+async function pickConfig(resource: unknown, configManager: ConfigManager): Promise<vscode.Uri | undefined> {
+    const uri = getResourceUri(resource);
+    if (uri && configManager.isConfigFile(uri)) {
+        return uri;
+    }
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    if (activeUri && configManager.isConfigFile(activeUri)) {
+        return activeUri;
+    }
+
+    const configs = configManager.getLoadedConfigs();
+    if (configs.length <= 1) {
+        return configs[0] ? vscode.Uri.file(configs[0].configPath) : undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+        configs.map((loaded) => ({
+            label: vscode.workspace.asRelativePath(loaded.configPath),
+            configPath: loaded.configPath
+        })),
+        { placeHolder: 'Select the .sops.yaml to test' }
+    );
+    return picked ? vscode.Uri.file(picked.configPath) : undefined;
+}
+
+/**
+ * Describe which rule wins for a path, and which later rules it shadows
+ */
+function describeMatch(underTest: ConfigUnderTest, filePath: string): { message: string; ruleIndex: number } {
+    const [winner, ...losers] = underTest.matcher.findMatchingRuleIndicesForPath(filePath);
+    if (winner === undefined) {
+        return { message: 'No creation rule matches this path', ruleIndex: -1 };
+    }
+
+    let message = `Matches ${describeRule(underTest.config.creation_rules[winner], winner)}`;
+    if (losers.length > 0) {
+        message += `; also matches ${losers.map((index) => `creation_rules[${index}]`).join(', ')} (shadowed)`;
+    }
+    return { message, ruleIndex: winner };
+}
+
+/**
+ * Open a config and select the start of a creation rule
+ */
+async function revealRule(configUri: vscode.Uri, ruleIndex: number): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(configUri);
+    const offset = findRuleOffsets(document.getText())[ruleIndex];
+    if (offset === undefined) {
+        return;
+    }
+    const position = document.positionAt(offset);
+    const editor = await vscode.window.showTextDocument(document);
+    editor.selection = new vscode.Selection(position, document.lineAt(position.line).range.end);
+    editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * Register the test rule path command.
+ * Shows which creation rule of a .sops.yaml wins for a typed path, updating as you type.
+ */
+export function registerTestRulePathCommand(configManager: ConfigManager): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.testRulePath',
+        async (resource?: unknown) => {
+            const configUri = await pickConfig(resource, configManager);
+            if (!configUri) {
+                vscode.window.showWarningMessage('No .sops.yaml found in the workspace');
+                return;
+            }
+
+            let underTest: ConfigUnderTest | null;
+            try {
+                underTest = parseConfigUnderTest(configUri, await readConfigText(configUri));
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to read ${configUri.fsPath}: ${getErrorMessage(error)}`);
+                return;
+            }
+            if (!underTest) {
+                vscode.window.showErrorMessage(`${path.basename(configUri.fsPath)} has errors. Fix them before testing paths.`);
+                return;
+            }
+            const config = underTest;
+
+            // Start from a visible file in this config's directory, if there is one
+            const candidates = vscode.window.visibleTextEditors
+                .map((editor) => editor.document.uri)
+                .filter((uri) => uri.scheme === 'file' && !configManager.isConfigFile(uri));
+            const initial = candidates
+                .map((uri) => path.relative(config.configDir, uri.fsPath))
+                .find((relative) => !relative.startsWith('..'));
+
+            const input = await vscode.window.showInputBox({
+                title: `Test ${vscode.workspace.asRelativePath(configUri)}`,
+                prompt: `Path relative to ${vscode.workspace.asRelativePath(config.configDir)}, or an absolute path`,
+                value: initial?.replace(/\\/g, '/'),
+                validateInput: (value) => {
+                    if (value.trim() === '') {
+                        return undefined;
+                    }
+                    const { message, ruleIndex } = describeMatch(config, path.resolve(config.configDir, value.trim()));
+                    return {
+                        message,
+                        severity: ruleIndex === -1 ? vscode.InputBoxValidationSeverity.Warning : vscode.InputBoxValidationSeverity.Info
+                    };
+                }
+            });
+            if (!input?.trim()) {
+                return;
+            }
+
+            const { message, ruleIndex } = describeMatch(config, path.resolve(config.configDir, input.trim()));
+            logger.debug(`TestRulePath command: ${input.trim()}: ${message}`);
+            if (ruleIndex !== -1) {
+                await revealRule(configUri, ruleIndex);
+            }
+            vscode.window.showInformationMessage(`${input.trim()}: ${message}`);
+        }
+    );
+}
+
+/**
+ * Register the show rule matches command.
+ * Lists the files a creation rule applies to and those it loses to an earlier rule.
+ */
+export function registerShowRuleMatchesCommand(ruleTesterProvider: RuleTesterProvider): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.showRuleMatches',
+        async (configUri?: vscode.Uri, ruleIndex?: number) => {
+            if (!configUri || ruleIndex === undefined) {
+                logger.debug('ShowRuleMatches command: Missing config or rule index');
+                return;
+            }
+
+            const underTest = parseConfigUnderTest(configUri, await readConfigText(configUri));
+            const rule = underTest?.config.creation_rules[ruleIndex];
+            if (!underTest || !rule) {
+                return;
+            }
+
+            const summary = (await ruleTesterProvider.getRuleMatches(configUri, underTest))[ruleIndex];
+            type FileItem = vscode.QuickPickItem & { uri?: vscode.Uri };
+            const items: FileItem[] = summary.matched.map((uri) => ({
+                label: vscode.workspace.asRelativePath(uri),
+                uri
+            }));
+            if (summary.shadowed.length > 0) {
+                items.push({ label: 'Shadowed by earlier rules', kind: vscode.QuickPickItemKind.Separator });
+                items.push(...summary.shadowed.map(({ uri, ruleIndex: winner }) => ({
+                    label: vscode.workspace.asRelativePath(uri),
+                    description: `uses ${describeRule(underTest.config.creation_rules[winner], winner)}`,
+                    uri
+                })));
+            }
+            if (items.length === 0) {
+                vscode.window.showInformationMessage(`${describeRule(rule, ruleIndex)} does not match any workspace file`);
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(items, {
+                title: describeRule(rule, ruleIndex),
+                placeHolder: `${summary.matched.length} files use this rule; select one to open`,
+                matchOnDescription: true
+            });
+            if (picked?.uri) {
+                await vscode.commands.executeCommand('vscode.open', picked.uri);
+            }
+        }
+    );
+}
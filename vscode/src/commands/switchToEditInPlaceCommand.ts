@@ -7,7 +7,7 @@ import { SOPS_DECRYPTED_SCHEME } from '../types';
 
 /**
  * Register the switch-to-edit-in-place command.
- * Switches from a read-only preview to an editable temp file.
+ * Switches from a read-only preview to an editable in-memory document.
  * Used when clicking the edit button on a preview tab.
  */
 export function registerSwitchToEditInPlaceCommand(
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { SopsRunner } from '../sops/sopsRunner';
+import { findKeyPaths, formatKeyPath, SopsKeyPath, supportsKeyPaths, toSopsExpression } from '../sops/sopsKeyPaths';
+import { EncryptedValueProvider } from '../providers/encryptedValueProvider';
+import { SettingsService } from '../services/settingsService';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getResourceUri } from '../utils/resourceUtils';
+
+/**
+ * Resolve the file argument of a value command.
+ * Hover links pass the URI as a string, CodeLenses pass a Uri.
+ */
+function toUri(target: unknown): vscode.Uri | undefined {
+    if (target instanceof vscode.Uri) {
+        return target;
+    }
+    if (typeof target === 'string') {
+        return vscode.Uri.parse(target);
+    }
+    return undefined;
+}
+
+/**
+ * Register the reveal value command.
+ * Decrypts a single value and shows it inline next to its ciphertext.
+ */
+export function registerRevealValueCommand(
+    encryptedValueProvider: EncryptedValueProvider
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.revealValue',
+        async (target?: unknown, keyPath?: SopsKeyPath) => {
+            const uri = toUri(target);
+            if (!uri || !keyPath) {
+                logger.debug('RevealValue command: Missing file or key path');
+                return;
+            }
+
+            logger.debug(`RevealValue command: Revealing ${formatKeyPath(keyPath)} in ${uri.fsPath}`);
+
+            try {
+                await encryptedValueProvider.reveal(uri, keyPath);
+            } catch (error) {
+                logger.debug(`RevealValue command: Failed for ${uri.fsPath}`);
+                vscode.window.showErrorMessage(`Failed to decrypt ${formatKeyPath(keyPath)}: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+}
+
+/**
+ * Register the hide value command.
+ */
+export function registerHideValueCommand(
+    encryptedValueProvider: EncryptedValueProvider
+): vscode.Disposable {
+    return vscode.commands.registerCommand(
+        'sopsie.hideValue',
+        (target?: unknown, keyPath?: SopsKeyPath) => {
+            const uri = toUri(target);
+            if (uri && keyPath) {
+                encryptedValueProvider.hide(uri, keyPath);
+            }
+        }
+    );
+}
+
+/**
+ * Let the user pick an encrypted leaf of a YAML/JSON file
+ */
+async function pickKeyPath(uri: vscode.Uri): Promise<SopsKeyPath | undefined> {
+    if (!supportsKeyPaths(uri.fsPath)) {
+        vscode.window.showInformationMessage('Copying single values is only supported for YAML and JSON files');
+        return undefined;
+    }
+
+    const content = await fs.promises.readFile(uri.fsPath, 'utf8');
+    const leaves = findKeyPaths(content, uri.fsPath).filter((entry) => !entry.branch);
+    if (leaves.length === 0) {
+        vscode.window.showInformationMessage('No values found in file');
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        leaves.map((entry) => ({
+            label: `${entry.encrypted ? '$(lock)' : '$(unlock)'} ${formatKeyPath(entry.path)}`,
+            description: entry.valueType,
+            keyPath: entry.path
+        })),
+        { title: 'SOPS: Copy Value', placeHolder: 'Select the key to copy', matchOnDescription: true }
+    );
+    return picked?.keyPath;
+}
+
+/**
+ * Decrypt a single value as it should land on the clipboard.
+ * sops prints extracted strings as they are but ends other values with a newline,
+ * so only that newline is removed; strings such as PEM blocks keep their own.
+ */
+async function extractClipboardValue(sopsRunner: SopsRunner, uri: vscode.Uri, keyPath: SopsKeyPath): Promise<string> {
+    const value = await sopsRunner.extractValue(uri.fsPath, keyPath);
+    const expression = toSopsExpression(keyPath);
+    const content = await fs.promises.readFile(uri.fsPath, 'utf8');
+    const valueType = findKeyPaths(content, uri.fsPath).find((entry) => toSopsExpression(entry.path) === expression)?.valueType;
+    return valueType === undefined || valueType === 'str' || valueType === 'bytes' ? value : value.replace(/\r?\n$/, '');
+}
+
+/**
+ * Register the copy value command.
+ * Decrypts a single value, places it on the clipboard and clears the clipboard
+ * after the configured timeout if it still holds the secret.
+ * Called with a key path from hovers/CodeLenses, or without one to pick a key.
+ */
+export function registerCopyValueCommand(
+    sopsRunner: SopsRunner,
+    settingsService: SettingsService
+): vscode.Disposable {
+    let clearTimer: NodeJS.Timeout | undefined;
+    let copiedValue: string | undefined;
+
+    const clearClipboard = async (): Promise<void> => {
+        clearTimer = undefined;
+        const value = copiedValue;
+        copiedValue = undefined;
+        try {
+            // Leave the clipboard alone if the user copied something else since
+            if (value !== undefined && await vscode.env.clipboard.readText() === value) {
+                await vscode.env.clipboard.writeText('');
+                logger.debug('CopyValue command: Cleared secret from clipboard');
+            }
+        } catch (error) {
+            logger.warn(`CopyValue command: Failed to clear the clipboard: ${getErrorMessage(error)}`);
+        }
+    };
+
+    const command = vscode.commands.registerCommand(
+        'sopsie.copyValue',
+        async (target?: unknown, keyPath?: SopsKeyPath) => {
+            // Support hover/CodeLens arguments, editor, explorer and tree view contexts
+            const uri = toUri(target) ?? getResourceUri(target) ?? vscode.window.activeTextEditor?.document.uri;
+            if (!uri) {
+                logger.debug('CopyValue command: No file selected');
+                vscode.window.showWarningMessage('No file selected');
+                return;
+            }
+
+            if (uri.scheme !== 'file') {
+                logger.debug('CopyValue command: Skipping non-file scheme');
+                vscode.window.showWarningMessage('Can only copy values from local files');
+                return;
+            }
+
+            try {
+                keyPath = keyPath ?? await pickKeyPath(uri);
+                if (!keyPath) {
+                    return;
+                }
+
+                logger.debug(`CopyValue command: Copying ${formatKeyPath(keyPath)} from ${uri.fsPath}`);
+
+                const value = await extractClipboardValue(sopsRunner, uri, keyPath);
+                await vscode.env.clipboard.writeText(value);
+
+                if (clearTimer) {
+                    clearTimeout(clearTimer);
+                    clearTimer = undefined;
+                }
+                copiedValue = undefined;
+
+                const timeout = settingsService.getClipboardClearTimeout();
+                if (timeout > 0) {
+                    copiedValue = value;
+                    clearTimer = setTimeout(() => {
+                        clearClipboard();
+                    }, timeout * 1000);
+                    vscode.window.showInformationMessage(
+                        `Copied ${formatKeyPath(keyPath)} to the clipboard (clears in ${timeout}s)`
+                    );
+                } else {
+                    vscode.window.showInformationMessage(`Copied ${formatKeyPath(keyPath)} to the clipboard`);
+                }
+            } catch (error) {
+                logger.debug(`CopyValue command: Failed for ${uri.fsPath}`);
+                vscode.window.showErrorMessage(`Failed to copy value: ${getErrorMessage(error)}`);
+            }
+        }
+    );
+
+    return new vscode.Disposable(() => {
+        command.dispose();
+        if (clearTimer) {
+            clearTimeout(clearTimer);
+            // Don't leave the secret behind when the extension shuts down
+            clearClipboard();
+        }
+    });
+}
@@ -1,37 +1,112 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { parseConfig } from './configParser';
-import { RulesMatcher, clearRegexCache } from './rulesMatcher';
+import { RulesMatcher, clearRegexCache, getRuleDirectory, isIgnoredFile } from './rulesMatcher';
 import { SopsConfig, SopsCreationRule } from '../types';
+import { SettingsService } from '../services/settingsService';
+import { EnvironmentService } from '../services/environmentService';
 import { logger } from '../services/loggerService';
 import { getErrorMessage } from '../utils/errorUtils';
 
-interface LoadedConfig {
+const CONFIG_FILE_NAMES = ['.sops.yaml', '.sops.yml'];
+
+export interface LoadedConfig {
     config: SopsConfig;
     configPath: string;
     configDir: string;
     matcher: RulesMatcher;
 }
 
+/**
+ * A workspace file together with the creation rule that governs it
+ */
+export interface RuleFileMatch {
+    uri: vscode.Uri;
+    loadedConfig: LoadedConfig;
+    ruleIndex: number;
+    rule: SopsCreationRule;
+}
+
+// Key of explicitConfigPaths for files outside any workspace folder
+const NO_FOLDER_KEY = '';
+
+// globalState key listing config files outside the workspace the user allowed
+const TRUSTED_CONFIGS_KEY = 'sopsie.trustedConfigs';
+
+// Dependencies are never SOPS targets, even when files.exclude does not hide them
+const NODE_MODULES_REGEX = /(^|[\\/])node_modules[\\/]/;
+
 /**
  * Manages SOPS configuration across workspaces.
  * Supports .sops.yaml files in any directory, matching SOPS CLI behavior
  * which searches up the directory tree from the target file.
+ * Configs above a workspace folder, or next to files opened from outside the workspace,
+ * are discovered on demand and only used once the user trusts them.
+ * A config file set with sopsie.configPath or SOPS_CONFIG replaces that search,
+ * like the CLI's --config flag.
  */
 export class ConfigManager implements vscode.Disposable {
     // Map from config file path to loaded config
     private configs: Map<string, LoadedConfig> = new Map();
+    // Map from workspace folder URI to its explicitly configured config file
+    private explicitConfigPaths = new Map<string, string>();
+    private explicitConfigWatchers = new Map<string, vscode.FileSystemWatcher>();
+    // Configs outside every workspace folder, which the workspace watcher does not see
+    private externalConfigWatchers = new Map<string, vscode.FileSystemWatcher>();
+    // Directories already searched for a config on demand
+    private searchedDirs = new Set<string>();
+    // Configs outside the workspace the user declined this session; they still hide configs further up
+    private declinedConfigs = new Set<string>();
+    private trustPrompts = new Map<string, Promise<boolean>>();
+    // Workspace files the creation rules could match, until files are created or deleted
+    private candidateFiles: Promise<vscode.Uri[]> | undefined;
+    private disposables: vscode.Disposable[] = [];
     private _onDidChangeConfig = new vscode.EventEmitter<vscode.Uri>();
+    private _onDidChangeExplicitConfigs = new vscode.EventEmitter<void>();
 
     /**
      * Event fired when a configuration changes
      */
     readonly onDidChangeConfig = this._onDidChangeConfig.event;
 
+    /**
+     * Event fired when the config files set with sopsie.configPath or SOPS_CONFIG change
+     */
+    readonly onDidChangeExplicitConfigs = this._onDidChangeExplicitConfigs.event;
+
+    constructor(
+        private settingsService: SettingsService,
+        private environmentService: EnvironmentService,
+        private globalState: vscode.Memento
+    ) {
+        // SOPS_CONFIG may come from sopsie.env or sopsie.envFile
+        this.disposables.push(environmentService.onDidChange(() => this.refreshExplicitConfigs()));
+
+        // Contents don't affect which files rules match, only their paths
+        const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+        fileWatcher.onDidCreate(() => this.invalidateCandidateFiles());
+        fileWatcher.onDidDelete(() => this.invalidateCandidateFiles());
+        this.disposables.push(
+            fileWatcher,
+            this.onDidChangeConfig(() => this.invalidateCandidateFiles()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidateCandidateFiles()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('files.exclude')) {
+                    this.invalidateCandidateFiles();
+                }
+            })
+        );
+    }
+
     /**
      * Initialize configurations for all workspace folders
      */
     async initialize(): Promise<void> {
+        await this.refreshExplicitConfigs();
+        // Reloading also asks again about configs declined earlier
+        this.searchedDirs.clear();
+        this.declinedConfigs.clear();
+
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) {
             return;
@@ -46,6 +121,16 @@ export class ConfigManager implements vscode.Disposable {
         await Promise.all(
             configFiles.map((uri) => this.loadConfig(uri))
         );
+
+        // Configs above the folders may need a trust prompt, so don't hold up activation
+        for (const folder of workspaceFolders) {
+            if (this.getExplicitConfigPath(folder.uri.fsPath)) {
+                continue;
+            }
+            this.discoverConfigs(path.dirname(folder.uri.fsPath)).catch((error) => {
+                logger.error(`Failed to search for configs above ${folder.uri.fsPath}:`, getErrorMessage(error));
+            });
+        }
     }
 
     /**
@@ -69,6 +154,7 @@ export class ConfigManager implements vscode.Disposable {
             logger.error(`Failed to load config ${configUri.fsPath}:`, getErrorMessage(error));
             this.configs.delete(configUri.fsPath);
         }
+        this.invalidateCandidateFiles();
     }
 
     /**
@@ -89,28 +175,245 @@ export class ConfigManager implements vscode.Disposable {
         this._onDidChangeConfig.fire(configUri);
     }
 
+    /**
+     * Re-read sopsie.configPath and SOPS_CONFIG for every workspace folder,
+     * loading and watching the config files they point to
+     */
+    async refreshExplicitConfigs(): Promise<void> {
+        const previous = new Set(this.explicitConfigPaths.values());
+        this.explicitConfigPaths.clear();
+
+        const envConfig = await this.getEnvConfigPath(undefined);
+        if (envConfig && path.isAbsolute(envConfig)) {
+            this.explicitConfigPaths.set(NO_FOLDER_KEY, path.normalize(envConfig));
+        }
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            // The setting wins over the environment, like --config over SOPS_CONFIG
+            const configured = this.settingsService.getConfigPath(folder.uri) || await this.getEnvConfigPath(folder);
+            if (configured) {
+                this.explicitConfigPaths.set(folder.uri.toString(), path.resolve(folder.uri.fsPath, configured));
+            }
+        }
+
+        const current = new Set(this.explicitConfigPaths.values());
+        for (const configPath of previous) {
+            if (!current.has(configPath)) {
+                this.explicitConfigWatchers.get(configPath)?.dispose();
+                this.explicitConfigWatchers.delete(configPath);
+                // Also discovered .sops.yaml files stay loaded
+                if (!CONFIG_FILE_NAMES.includes(path.basename(configPath))) {
+                    this.configs.delete(configPath);
+                }
+            }
+        }
+        for (const configPath of current) {
+            if (!this.explicitConfigWatchers.has(configPath)) {
+                this.explicitConfigWatchers.set(configPath, this.watchConfigFile(configPath));
+            }
+            await this.loadConfig(vscode.Uri.file(configPath));
+            if (this.configs.has(configPath)) {
+                logger.debug(`Using config ${configPath} instead of .sops.yaml discovery`);
+            } else {
+                logger.warn(`Configured SOPS config ${configPath} could not be loaded; no creation rules apply`);
+            }
+        }
+
+        if (previous.size > 0 || current.size > 0) {
+            clearRegexCache();
+            for (const configPath of new Set([...previous, ...current])) {
+                this._onDidChangeConfig.fire(vscode.Uri.file(configPath));
+            }
+        }
+        if (previous.size !== current.size || [...current].some((configPath) => !previous.has(configPath))) {
+            this._onDidChangeExplicitConfigs.fire();
+        }
+    }
+
+    /**
+     * Check whether a file is a sops config: a .sops.yaml, or a file set with sopsie.configPath or SOPS_CONFIG
+     */
+    isConfigFile(uri: vscode.Uri): boolean {
+        if (uri.scheme !== 'file') {
+            return false;
+        }
+        return CONFIG_FILE_NAMES.includes(path.basename(uri.fsPath))
+            || Array.from(this.explicitConfigPaths.values()).includes(uri.fsPath);
+    }
+
+    /**
+     * Get a document selector for every sops config, including explicitly set ones.
+     * It changes with onDidChangeExplicitConfigs.
+     */
+    getConfigDocumentSelector(): vscode.DocumentFilter[] {
+        const explicitFilters = Array.from(new Set(this.explicitConfigPaths.values()))
+            .filter((configPath) => !CONFIG_FILE_NAMES.includes(path.basename(configPath)))
+            .map((configPath) => ({
+                scheme: 'file',
+                pattern: new vscode.RelativePattern(vscode.Uri.file(path.dirname(configPath)), path.basename(configPath))
+            }));
+        return [{ scheme: 'file', pattern: '**/.sops.{yaml,yml}' }, ...explicitFilters];
+    }
+
+    /**
+     * Get the config files set with sopsie.configPath or SOPS_CONFIG
+     */
+    getExplicitConfigUris(): vscode.Uri[] {
+        return Array.from(new Set(this.explicitConfigPaths.values())).map((configPath) => vscode.Uri.file(configPath));
+    }
+
+    /**
+     * Get SOPS_CONFIG as sops sees it in a folder, including sopsie.env and sopsie.envFile
+     */
+    private async getEnvConfigPath(folder: vscode.WorkspaceFolder | undefined): Promise<string | undefined> {
+        const variables = await this.environmentService.getFolderVariables(folder);
+        const value = 'SOPS_CONFIG' in variables ? variables.SOPS_CONFIG : process.env.SOPS_CONFIG;
+        return value?.trim() || undefined;
+    }
+
+    /**
+     * Get the config file set with sopsie.configPath or SOPS_CONFIG that applies to a file,
+     * or undefined when the nearest .sops.yaml is used.
+     * SopsRunner passes it to sops as --config.
+     */
+    getExplicitConfigPath(filePath: string): string | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        return this.explicitConfigPaths.get(folder ? folder.uri.toString() : NO_FOLDER_KEY);
+    }
+
+    /**
+     * Load the configs sops would use for a file but the workspace scan missed:
+     * configs above its workspace folder, in excluded folders, or next to a file
+     * opened from outside the workspace. Configs outside the workspace need the user's trust.
+     * Cheap to call repeatedly; each directory is only searched once.
+     */
+    async ensureConfigsFor(fileUri: vscode.Uri): Promise<void> {
+        if (fileUri.scheme !== 'file' || this.getExplicitConfigPath(fileUri.fsPath)) {
+            return;
+        }
+        await this.discoverConfigs(path.dirname(fileUri.fsPath));
+    }
+
+    /**
+     * Walk up from a directory to the nearest config, loading it if it is new
+     */
+    private async discoverConfigs(startDir: string): Promise<void> {
+        let currentDir = startDir;
+        while (!this.searchedDirs.has(currentDir)) {
+            // Marked up front so a config that fails to load isn't retried on every call
+            this.searchedDirs.add(currentDir);
+            for (const configName of CONFIG_FILE_NAMES) {
+                const configPath = path.join(currentDir, configName);
+                if (this.configs.has(configPath) || this.declinedConfigs.has(configPath)) {
+                    return;
+                }
+                if (await this.fileExists(configPath)) {
+                    await this.loadDiscoveredConfig(configPath);
+                    return;
+                }
+            }
+
+            const parentDir = path.dirname(currentDir);
+            if (parentDir === currentDir) {
+                break;
+            }
+            currentDir = parentDir;
+        }
+    }
+
+    private async loadDiscoveredConfig(configPath: string): Promise<void> {
+        const configUri = vscode.Uri.file(configPath);
+        const isExternal = !vscode.workspace.getWorkspaceFolder(configUri);
+        if (isExternal) {
+            if (!await this.confirmTrust(configPath)) {
+                this.declinedConfigs.add(configPath);
+                return;
+            }
+            if (!this.externalConfigWatchers.has(configPath)) {
+                this.externalConfigWatchers.set(configPath, this.watchConfigFile(configPath));
+            }
+        }
+
+        logger.debug(`Discovered SOPS config ${configPath}`);
+        await this.reloadConfig(configUri);
+    }
+
+    /**
+     * Ask once per config whether a config outside the workspace may be used.
+     * Allowing is remembered; declining lasts for the session.
+     */
+    private confirmTrust(configPath: string): Promise<boolean> {
+        const trusted = this.globalState.get<string[]>(TRUSTED_CONFIGS_KEY, []);
+        if (trusted.includes(configPath)) {
+            return Promise.resolve(true);
+        }
+
+        let prompt = this.trustPrompts.get(configPath);
+        if (!prompt) {
+            prompt = (async () => {
+                const choice = await vscode.window.showWarningMessage(
+                    `Found SOPS config ${configPath} outside the workspace. The sops CLI applies its creation rules to files below it. Use it?`,
+                    'Use Config',
+                    'Ignore'
+                );
+                if (choice !== 'Use Config') {
+                    logger.info(`Ignoring SOPS config outside the workspace: ${configPath}`);
+                    return false;
+                }
+                const current = this.globalState.get<string[]>(TRUSTED_CONFIGS_KEY, []);
+                await this.globalState.update(TRUSTED_CONFIGS_KEY, [...current, configPath]);
+                return true;
+            })().finally(() => this.trustPrompts.delete(configPath));
+            this.trustPrompts.set(configPath, prompt);
+        }
+        return prompt;
+    }
+
+    private async fileExists(filePath: string): Promise<boolean> {
+        try {
+            const stat = await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+            return (stat.type & vscode.FileType.File) !== 0;
+        } catch {
+            return false;
+        }
+    }
+
+    private watchConfigFile(configPath: string): vscode.FileSystemWatcher {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(configPath)), path.basename(configPath))
+        );
+        watcher.onDidChange((uri) => this.reloadConfig(uri));
+        watcher.onDidCreate((uri) => this.reloadConfig(uri));
+        watcher.onDidDelete((uri) => this.removeConfig(uri));
+        return watcher;
+    }
+
     /**
      * Find the nearest .sops.yaml config for a file by walking up the directory tree.
-     * This matches SOPS CLI behavior.
+     * This matches SOPS CLI behavior. Only configs loaded so far are considered;
+     * ensureConfigsFor loads those outside the workspace scan.
      */
     private findNearestConfig(fileUri: vscode.Uri): LoadedConfig | null {
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
-        if (!workspaceFolder) {
-            return null;
+        const explicitPath = this.getExplicitConfigPath(fileUri.fsPath);
+        if (explicitPath) {
+            // sops does not search when --config is given, even if the file fails to load
+            return this.configs.get(explicitPath) ?? null;
         }
 
-        const workspaceRoot = workspaceFolder.uri.fsPath;
         let currentDir = path.dirname(fileUri.fsPath);
 
-        // Walk up the directory tree until we hit the workspace root
-        while (currentDir.startsWith(workspaceRoot)) {
+        // Walk up the directory tree until we hit the filesystem root
+        for (;;) {
             // Check for .sops.yaml or .sops.yml in current directory
-            for (const configName of ['.sops.yaml', '.sops.yml']) {
+            for (const configName of CONFIG_FILE_NAMES) {
                 const configPath = path.join(currentDir, configName);
                 const loadedConfig = this.configs.get(configPath);
                 if (loadedConfig) {
                     return loadedConfig;
                 }
+                if (this.declinedConfigs.has(configPath)) {
+                    // sops would use this config, so don't fall back to one further up
+                    return null;
+                }
             }
 
             // Move up one directory
@@ -144,8 +447,152 @@ export class ConfigManager implements vscode.Disposable {
         return this.findMatchingRule(fileUri) !== null;
     }
 
+    /**
+     * Get all successfully loaded configs, sorted by path
+     */
+    getLoadedConfigs(): LoadedConfig[] {
+        return Array.from(this.configs.values())
+            .sort((a, b) => a.configPath.localeCompare(b.configPath));
+    }
+
+    /**
+     * Find every workspace file that matches a creation rule of its nearest config.
+     * Uses the same first-match semantics as findMatchingRule.
+     * @param within Optional directory to limit the results to
+     */
+    async findMatchingFiles(within?: vscode.Uri): Promise<RuleFileMatch[]> {
+        if (this.configs.size === 0) {
+            return [];
+        }
+
+        if (!this.candidateFiles) {
+            const candidateFiles = this.findCandidateFiles();
+            this.candidateFiles = candidateFiles;
+            // Search again next time if this search failed
+            candidateFiles.catch(() => {
+                if (this.candidateFiles === candidateFiles) {
+                    this.candidateFiles = undefined;
+                }
+            });
+        }
+        const files = await this.candidateFiles;
+
+        const matches: RuleFileMatch[] = [];
+        for (const uri of files) {
+            if (within && !isWithin(within.fsPath, uri.fsPath)) {
+                continue;
+            }
+
+            const loadedConfig = this.findNearestConfig(uri);
+            if (!loadedConfig) {
+                continue;
+            }
+
+            const ruleIndex = loadedConfig.matcher.findMatchingRuleIndex(uri);
+            if (ruleIndex === -1) {
+                continue;
+            }
+
+            matches.push({
+                uri,
+                loadedConfig,
+                ruleIndex,
+                rule: loadedConfig.config.creation_rules[ruleIndex]
+            });
+        }
+
+        return matches.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+    }
+
+    /**
+     * Find every workspace file that any loaded config could apply a creation rule to.
+     * Only searches the directories the rules' path_regex prefixes allow, e.g. secrets/
+     * for ^secrets/.*\.yaml$, and honors files.exclude.
+     */
+    private async findCandidateFiles(): Promise<vscode.Uri[]> {
+        const directories = new Set<string>();
+        for (const loadedConfig of this.configs.values()) {
+            const ruleDirectories = loadedConfig.config.creation_rules.map((rule) => getRuleDirectory(rule));
+            for (const base of this.getScopeBases(loadedConfig.configPath)) {
+                for (const ruleDirectory of ruleDirectories) {
+                    const directory = ruleDirectory ? path.join(loadedConfig.configDir, ruleDirectory) : base.fsPath;
+                    if (isWithin(base.fsPath, directory)) {
+                        directories.add(directory);
+                    } else if (isWithin(directory, base.fsPath)) {
+                        directories.add(base.fsPath);
+                    }
+                }
+            }
+        }
+
+        // Searching a directory also covers the ones below it
+        const searchDirectories = Array.from(directories).filter((directory) =>
+            !Array.from(directories).some((other) => other !== directory && isWithin(other, directory))
+        );
+        const files = (await Promise.all(searchDirectories.map((directory) => vscode.workspace.findFiles(
+            new vscode.RelativePattern(vscode.Uri.file(directory), '**/*')
+        )))).flat();
+
+        return files.filter((uri) => !isIgnoredFile(uri.fsPath) && !NODE_MODULES_REGEX.test(uri.fsPath));
+    }
+
+    private invalidateCandidateFiles(): void {
+        this.candidateFiles = undefined;
+    }
+
+    /**
+     * Get the directories a config governs files in: the workspace folders it is set for
+     * explicitly, its own directory, or the workspace folders below a config above the workspace
+     */
+    private getScopeBases(configPath: string): vscode.Uri[] {
+        // An explicit config governs whole workspace folders, wherever it is stored
+        const explicitBases = Array.from(this.explicitConfigPaths.entries())
+            .filter(([folderKey, explicitPath]) => folderKey !== NO_FOLDER_KEY && explicitPath === configPath)
+            .map(([folderKey]) => vscode.Uri.parse(folderKey));
+        if (explicitBases.length > 0) {
+            return explicitBases;
+        }
+
+        const configDir = path.dirname(configPath);
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(configPath))
+            ? [vscode.Uri.file(configDir)]
+            : (vscode.workspace.workspaceFolders ?? [])
+                .filter((folder) => isWithin(configDir, folder.uri.fsPath))
+                .map((folder) => folder.uri);
+    }
+
+    /**
+     * Find every workspace file whose nearest config is the given .sops.yaml,
+     * whether or not one of its rules matches
+     */
+    async findFilesInConfigScope(configUri: vscode.Uri): Promise<vscode.Uri[]> {
+        const files = (await Promise.all(this.getScopeBases(configUri.fsPath).map((base) => vscode.workspace.findFiles(
+            new vscode.RelativePattern(base, '**/*')
+        )))).flat();
+
+        return files
+            .filter((uri) => !isIgnoredFile(uri.fsPath) && !NODE_MODULES_REGEX.test(uri.fsPath))
+            .filter((uri) => this.findNearestConfig(uri)?.configPath === configUri.fsPath)
+            .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+    }
+
     dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this.explicitConfigWatchers.forEach((watcher) => watcher.dispose());
+        this.explicitConfigWatchers.clear();
+        this.externalConfigWatchers.forEach((watcher) => watcher.dispose());
+        this.externalConfigWatchers.clear();
         this._onDidChangeConfig.dispose();
+        this._onDidChangeExplicitConfigs.dispose();
         this.configs.clear();
     }
 }
+
+/**
+ * Check whether a path is a directory or lies below it
+ */
+function isWithin(directory: string, filePath: string): boolean {
+    const relativePath = path.relative(directory, filePath);
+    return relativePath !== '..' && !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath);
+}
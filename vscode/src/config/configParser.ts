@@ -1,8 +1,21 @@
 import * as yaml from 'yaml';
-import { SopsConfig, SopsCreationRule } from '../types';
+import {
+    KeyGroup,
+    SopsConfig,
+    SopsCreationRule,
+    SopsDestinationRule,
+    SopsStoreConfig,
+    SopsStoresConfig
+} from '../types';
+
+type RawObject = Record<string, unknown>;
+
+const STORE_NAMES: (keyof SopsStoresConfig)[] = ['yaml', 'json', 'json_binary', 'ini', 'dotenv'];
 
 /**
- * Parse .sops.yaml configuration file content
+ * Parse .sops.yaml configuration file content.
+ * Like the sops CLI, wrong value types fail the whole file while unknown keys are ignored and
+ * conflicting rule options only fail when that rule is used; configValidator reports both.
  */
 export function parseConfig(content: string): SopsConfig {
     const parsed = yaml.parse(content);
@@ -11,6 +24,10 @@ export function parseConfig(content: string): SopsConfig {
         throw new Error('Empty or invalid YAML content');
     }
 
+    if (!isObject(parsed)) {
+        throw new Error('.sops.yaml must be a mapping');
+    }
+
     if (!parsed.creation_rules) {
         throw new Error('Missing required "creation_rules" field');
     }
@@ -20,66 +37,268 @@ export function parseConfig(content: string): SopsConfig {
     }
 
     const creation_rules: SopsCreationRule[] = parsed.creation_rules.map(
-        (rule: unknown, index: number) => validateRule(rule, index)
+        (rule: unknown, index: number) => validateRule(rule, `creation_rules[${index}]`)
     );
 
-    return { creation_rules };
+    const config: SopsConfig = { creation_rules };
+
+    if (parsed.destination_rules !== undefined && parsed.destination_rules !== null) {
+        if (!Array.isArray(parsed.destination_rules)) {
+            throw new Error('"destination_rules" must be an array');
+        }
+        config.destination_rules = parsed.destination_rules.map(
+            (rule: unknown, index: number) => validateDestinationRule(rule, `destination_rules[${index}]`)
+        );
+    }
+
+    if (parsed.stores !== undefined && parsed.stores !== null) {
+        config.stores = validateStores(parsed.stores);
+    }
+
+    return config;
 }
 
 /**
  * Validate a single creation rule
  */
-function validateRule(rule: unknown, index: number): SopsCreationRule {
-    if (typeof rule !== 'object' || rule === null) {
-        throw new Error(`creation_rules[${index}] must be an object`);
+function validateRule(rule: unknown, where: string): SopsCreationRule {
+    if (!isObject(rule)) {
+        throw new Error(`${where} must be an object`);
     }
 
-    const r = rule as Record<string, unknown>;
+    const shamirThreshold = optionalNumber(rule, 'shamir_threshold', where);
+    if (shamirThreshold !== undefined && (!Number.isInteger(shamirThreshold) || shamirThreshold < 0)) {
+        throw new Error(`${where}.shamir_threshold must be a non-negative integer`);
+    }
 
-    // Validate regex patterns if present
-    if (r.path_regex !== undefined && typeof r.path_regex !== 'string') {
-        throw new Error(`creation_rules[${index}].path_regex must be a string`);
+    let keyGroups: KeyGroup[] | undefined;
+    if (rule.key_groups !== undefined && rule.key_groups !== null) {
+        if (!Array.isArray(rule.key_groups)) {
+            throw new Error(`${where}.key_groups must be an array`);
+        }
+        keyGroups = rule.key_groups.map((group, index) => validateKeyGroup(group, `${where}.key_groups[${index}]`));
     }
 
-    if (r.filename_regex !== undefined && typeof r.filename_regex !== 'string') {
-        throw new Error(`creation_rules[${index}].filename_regex must be a string`);
+    return {
+        // Go regexes; a rule whose pattern JavaScript can't compile never matches, see configValidator
+        path_regex: optionalString(rule, 'path_regex', where),
+        filename_regex: optionalString(rule, 'filename_regex', where),
+        // Only sops evaluates these, with Go regex syntax JavaScript may not accept, e.g. (?i)
+        encrypted_regex: optionalString(rule, 'encrypted_regex', where),
+        unencrypted_regex: optionalString(rule, 'unencrypted_regex', where),
+        encrypted_comment_regex: optionalString(rule, 'encrypted_comment_regex', where),
+        unencrypted_comment_regex: optionalString(rule, 'unencrypted_comment_regex', where),
+        encrypted_suffix: optionalString(rule, 'encrypted_suffix', where),
+        unencrypted_suffix: optionalString(rule, 'unencrypted_suffix', where),
+        mac_only_encrypted: optionalBoolean(rule, 'mac_only_encrypted', where),
+        age: optionalKeyList(rule, 'age', where),
+        pgp: optionalKeyList(rule, 'pgp', where),
+        kms: optionalKeyList(rule, 'kms', where),
+        aws_profile: optionalString(rule, 'aws_profile', where),
+        gcp_kms: optionalKeyList(rule, 'gcp_kms', where),
+        azure_keyvault: optionalKeyList(rule, 'azure_keyvault', where),
+        hc_vault_transit_uri: optionalKeyList(rule, 'hc_vault_transit_uri', where),
+        key_groups: keyGroups,
+        shamir_threshold: shamirThreshold
+    };
+}
+
+/**
+ * Validate a key group, including nested merge groups
+ */
+function validateKeyGroup(group: unknown, where: string): KeyGroup {
+    if (!isObject(group)) {
+        throw new Error(`${where} must be an object`);
     }
 
-    // Validate regex compiles
-    if (r.path_regex) {
-        try {
-            new RegExp(r.path_regex as string);
-        } catch (e) {
-            throw new Error(
-                `creation_rules[${index}].path_regex is invalid: ${(e as Error).message}`
-            );
+    let merge: KeyGroup[] | undefined;
+    if (group.merge !== undefined && group.merge !== null) {
+        if (!Array.isArray(group.merge)) {
+            throw new Error(`${where}.merge must be an array`);
         }
+        merge = group.merge.map((nested, index) => validateKeyGroup(nested, `${where}.merge[${index}]`));
     }
 
-    if (r.filename_regex) {
-        try {
-            new RegExp(r.filename_regex as string);
-        } catch (e) {
-            throw new Error(
-                `creation_rules[${index}].filename_regex is invalid: ${(e as Error).message}`
-            );
-        }
+    return {
+        age: optionalStringArray(group, 'age', where),
+        pgp: optionalStringArray(group, 'pgp', where),
+        kms: optionalObjectArray(group, 'kms', where, (key, keyWhere) => ({
+            arn: requiredString(key, 'arn', keyWhere),
+            role: optionalString(key, 'role', keyWhere),
+            context: optionalStringMap(key, 'context', keyWhere),
+            aws_profile: optionalString(key, 'aws_profile', keyWhere)
+        })),
+        gcp_kms: optionalObjectArray(group, 'gcp_kms', where, (key, keyWhere) => ({
+            resource_id: requiredString(key, 'resource_id', keyWhere)
+        })),
+        azure_keyvault: optionalObjectArray(group, 'azure_keyvault', where, (key, keyWhere) => ({
+            vaultUrl: requiredString(key, 'vaultUrl', keyWhere),
+            key: requiredString(key, 'key', keyWhere),
+            version: optionalString(key, 'version', keyWhere) ?? ''
+        })),
+        hc_vault: optionalStringArray(group, 'hc_vault', where),
+        merge
+    };
+}
+
+/**
+ * Validate a destination rule used by `sops publish`
+ */
+function validateDestinationRule(rule: unknown, where: string): SopsDestinationRule {
+    if (!isObject(rule)) {
+        throw new Error(`${where} must be an object`);
+    }
+
+    const vaultKvVersion = optionalNumber(rule, 'vault_kv_version', where);
+    if (vaultKvVersion !== undefined && vaultKvVersion !== 1 && vaultKvVersion !== 2) {
+        throw new Error(`${where}.vault_kv_version must be 1 or 2`);
     }
 
-    // Return the rule with proper typing
     return {
-        path_regex: r.path_regex as string | undefined,
-        filename_regex: r.filename_regex as string | undefined,
-        encrypted_regex: r.encrypted_regex as string | undefined,
-        encrypted_suffix: r.encrypted_suffix as string | undefined,
-        unencrypted_suffix: r.unencrypted_suffix as string | undefined,
-        age: r.age as string | undefined,
-        pgp: r.pgp as string | undefined,
-        kms: r.kms as string | undefined,
-        gcp_kms: r.gcp_kms as string | undefined,
-        azure_kv: r.azure_kv as string | undefined,
-        hc_vault_transit: r.hc_vault_transit as string | undefined,
-        key_groups: r.key_groups as SopsCreationRule['key_groups'],
-        shamir_threshold: r.shamir_threshold as number | undefined
+        path_regex: optionalString(rule, 'path_regex', where),
+        s3_bucket: optionalString(rule, 's3_bucket', where),
+        s3_prefix: optionalString(rule, 's3_prefix', where),
+        gcs_bucket: optionalString(rule, 'gcs_bucket', where),
+        gcs_prefix: optionalString(rule, 'gcs_prefix', where),
+        vault_path: optionalString(rule, 'vault_path', where),
+        vault_address: optionalString(rule, 'vault_address', where),
+        vault_kv_mount_name: optionalString(rule, 'vault_kv_mount_name', where),
+        vault_kv_version: vaultKvVersion,
+        recreation_rule: rule.recreation_rule === undefined || rule.recreation_rule === null
+            ? undefined
+            : validateRule(rule.recreation_rule, `${where}.recreation_rule`),
+        omit_extensions: optionalBoolean(rule, 'omit_extensions', where)
     };
 }
+
+/**
+ * Validate the per-format store settings
+ */
+function validateStores(stores: unknown): SopsStoresConfig {
+    if (!isObject(stores)) {
+        throw new Error('"stores" must be an object');
+    }
+
+    const result: SopsStoresConfig = {};
+    for (const name of STORE_NAMES) {
+        const store = stores[name];
+        if (store === undefined || store === null) {
+            continue;
+        }
+        if (!isObject(store)) {
+            throw new Error(`stores.${name} must be an object`);
+        }
+
+        const config: SopsStoreConfig = {};
+        const indent = optionalNumber(store, 'indent', `stores.${name}`);
+        if (indent !== undefined) {
+            if (!Number.isInteger(indent) || indent < 0) {
+                throw new Error(`stores.${name}.indent must be a non-negative integer`);
+            }
+            config.indent = indent;
+        }
+        result[name] = config;
+    }
+    return result;
+}
+
+function isObject(value: unknown): value is RawObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(obj: RawObject, field: string, where: string): string | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new Error(`${where}.${field} must be a string`);
+    }
+    return value;
+}
+
+function requiredString(obj: RawObject, field: string, where: string): string {
+    const value = optionalString(obj, field, where);
+    if (value === undefined) {
+        throw new Error(`${where}.${field} is required`);
+    }
+    return value;
+}
+
+function optionalNumber(obj: RawObject, field: string, where: string): number | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'number') {
+        throw new Error(`${where}.${field} must be a number`);
+    }
+    return value;
+}
+
+function optionalBoolean(obj: RawObject, field: string, where: string): boolean | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'boolean') {
+        throw new Error(`${where}.${field} must be true or false`);
+    }
+    return value;
+}
+
+/**
+ * Read a master key field of a creation rule: a comma-separated string or a list of strings
+ */
+function optionalKeyList(obj: RawObject, field: string, where: string): string[] | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    const entries = typeof value === 'string' ? value.split(',') : optionalStringArray(obj, field, where) ?? [];
+    return entries.map((entry) => entry.trim()).filter((entry) => entry !== '');
+}
+
+function optionalStringArray(obj: RawObject, field: string, where: string): string[] | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+        throw new Error(`${where}.${field} must be a list of strings`);
+    }
+    return value as string[];
+}
+
+function optionalStringMap(obj: RawObject, field: string, where: string): Record<string, string> | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!isObject(value) || Object.values(value).some((entry) => typeof entry !== 'string')) {
+        throw new Error(`${where}.${field} must be a mapping of strings`);
+    }
+    return value as Record<string, string>;
+}
+
+function optionalObjectArray<T>(
+    obj: RawObject,
+    field: string,
+    where: string,
+    map: (entry: RawObject, entryWhere: string) => T
+): T[] | undefined {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Array.isArray(value)) {
+        throw new Error(`${where}.${field} must be an array`);
+    }
+    return value.map((entry, index) => {
+        const entryWhere = `${where}.${field}[${index}]`;
+        if (!isObject(entry)) {
+            throw new Error(`${entryWhere} must be an object`);
+        }
+        return map(entry, entryWhere);
+    });
+}
@@ -0,0 +1,256 @@
+/**
+ * Keys the SOPS CLI reads from .sops.yaml, with short documentation.
+ * Shared by the config validator, completions and hovers.
+ */
+
+export interface ConfigField {
+    name: string;
+    /** Markdown documentation */
+    description: string;
+    /** Snippet inserted after "name:" on completion; defaults to a single value placeholder */
+    valueSnippet?: string;
+}
+
+export const TOP_LEVEL_FIELDS: ConfigField[] = [
+    {
+        name: 'creation_rules',
+        description: 'Rules that choose the keys and encryption settings for new files. The **first** rule whose `path_regex` matches is used.',
+        valueSnippet: '\n  - path_regex: ${1:\\.enc\\.yaml$}\n    age: ${2}'
+    },
+    {
+        name: 'destination_rules',
+        description: 'Rules used by `sops publish` to choose where re-encrypted files are uploaded (S3, GCS or Vault).',
+        valueSnippet: '\n  - path_regex: ${1}\n    s3_bucket: ${2}'
+    },
+    {
+        name: 'stores',
+        description: 'Format-specific settings, e.g. `yaml: { indent: 2 }` or `json: { indent: 4 }`.',
+        valueSnippet: '\n  yaml:\n    indent: ${1:2}'
+    }
+];
+
+export const CREATION_RULE_FIELDS: ConfigField[] = [
+    {
+        name: 'path_regex',
+        description: 'Regular expression matched against the file path relative to the `.sops.yaml` directory. Uses Go (RE2) syntax.'
+    },
+    {
+        name: 'filename_regex',
+        description: 'Regular expression matched against the file name only. Uses Go (RE2) syntax.'
+    },
+    {
+        name: 'age',
+        description: 'age recipients (`age1...` public keys or SSH public keys), comma-separated or as a list.'
+    },
+    {
+        name: 'pgp',
+        description: 'PGP key fingerprints, comma-separated or as a list.'
+    },
+    {
+        name: 'kms',
+        description: 'AWS KMS key ARNs, comma-separated or as a list. Append `+arn:aws:iam::<account>:role/<name>` to assume a role.',
+        valueSnippet: ' arn:aws:kms:${1:region}:${2:account}:key/${3:id}'
+    },
+    {
+        name: 'aws_profile',
+        description: 'AWS profile used for the KMS keys of this rule.'
+    },
+    {
+        name: 'gcp_kms',
+        description: 'GCP KMS key resource IDs (`projects/.../locations/.../keyRings/.../cryptoKeys/...`), comma-separated or as a list.'
+    },
+    {
+        name: 'azure_keyvault',
+        description: 'Azure Key Vault key URLs (`https://<vault>.vault.azure.net/keys/<key>/<version>`), comma-separated or as a list.'
+    },
+    {
+        name: 'hc_vault_transit_uri',
+        description: 'HashiCorp Vault transit key URIs (`https://vault:8200/v1/transit/keys/<key>`), comma-separated or as a list.'
+    },
+    {
+        name: 'key_groups',
+        description: 'Key groups for Shamir secret sharing. The data key is split so that `shamir_threshold` groups are needed to decrypt. Replaces the top-level key fields of the rule.',
+        valueSnippet: '\n  - age:\n      - ${1}\n  - age:\n      - ${2}'
+    },
+    {
+        name: 'shamir_threshold',
+        description: 'Number of key groups needed to decrypt. Must not exceed the number of key groups.',
+        valueSnippet: ' ${1:2}'
+    },
+    {
+        name: 'encrypted_suffix',
+        description: 'Only encrypt values whose key ends with this suffix. Mutually exclusive with the other encrypted/unencrypted options.',
+        valueSnippet: ' ${1:_secret}'
+    },
+    {
+        name: 'unencrypted_suffix',
+        description: 'Leave values whose key ends with this suffix in plaintext (default `_unencrypted`). Mutually exclusive with the other encrypted/unencrypted options.',
+        valueSnippet: ' ${1:_unencrypted}'
+    },
+    {
+        name: 'encrypted_regex',
+        description: 'Only encrypt values whose key matches this regular expression, e.g. `^(data|stringData)$` for Kubernetes secrets. Mutually exclusive with the other encrypted/unencrypted options.',
+        valueSnippet: ' ${1:^(data|stringData)$}'
+    },
+    {
+        name: 'unencrypted_regex',
+        description: 'Leave values whose key matches this regular expression in plaintext. Mutually exclusive with the other encrypted/unencrypted options.'
+    },
+    {
+        name: 'encrypted_comment_regex',
+        description: 'Only encrypt values preceded by a comment matching this regular expression (YAML only). Mutually exclusive with the other encrypted/unencrypted options.',
+        valueSnippet: ' ${1:sops:enc}'
+    },
+    {
+        name: 'unencrypted_comment_regex',
+        description: 'Leave values preceded by a comment matching this regular expression in plaintext (YAML only). Mutually exclusive with the other encrypted/unencrypted options.',
+        valueSnippet: ' ${1:sops:noenc}'
+    },
+    {
+        name: 'mac_only_encrypted',
+        description: 'Compute the MAC over encrypted values only, so plaintext values can be edited without sops.',
+        valueSnippet: ' ${1|true,false|}'
+    }
+];
+
+export const KEY_GROUP_FIELDS: ConfigField[] = [
+    {
+        name: 'age',
+        description: 'age recipients of this key group.',
+        valueSnippet: '\n  - ${1}'
+    },
+    {
+        name: 'pgp',
+        description: 'PGP fingerprints of this key group.',
+        valueSnippet: '\n  - ${1}'
+    },
+    {
+        name: 'kms',
+        description: 'AWS KMS keys of this key group, each with `arn` and optional `role`, `context` and `aws_profile`.',
+        valueSnippet: '\n  - arn: arn:aws:kms:${1:region}:${2:account}:key/${3:id}'
+    },
+    {
+        name: 'gcp_kms',
+        description: 'GCP KMS keys of this key group, each with `resource_id`.',
+        valueSnippet: '\n  - resource_id: ${1}'
+    },
+    {
+        name: 'azure_keyvault',
+        description: 'Azure Key Vault keys of this key group, each with `vaultUrl`, `key` and `version`.',
+        valueSnippet: '\n  - vaultUrl: ${1}\n    key: ${2}\n    version: ${3}'
+    },
+    {
+        name: 'hc_vault',
+        description: 'HashiCorp Vault transit key URIs of this key group.',
+        valueSnippet: '\n  - ${1}'
+    },
+    {
+        name: 'merge',
+        description: 'Nested key groups whose keys are merged into this group.',
+        valueSnippet: '\n  - age:\n      - ${1}'
+    }
+];
+
+export const DESTINATION_RULE_FIELDS: ConfigField[] = [
+    {
+        name: 'path_regex',
+        description: 'Regular expression selecting the files this destination applies to. Uses Go (RE2) syntax.'
+    },
+    {
+        name: 's3_bucket',
+        description: 'S3 bucket to publish to.'
+    },
+    {
+        name: 's3_prefix',
+        description: 'Key prefix inside the S3 bucket.'
+    },
+    {
+        name: 'gcs_bucket',
+        description: 'Google Cloud Storage bucket to publish to.'
+    },
+    {
+        name: 'gcs_prefix',
+        description: 'Object prefix inside the GCS bucket.'
+    },
+    {
+        name: 'vault_path',
+        description: 'Vault KV path to publish decrypted values to.'
+    },
+    {
+        name: 'vault_address',
+        description: 'Address of the Vault server, e.g. `https://vault:8200`.'
+    },
+    {
+        name: 'vault_kv_mount_name',
+        description: 'Mount name of the Vault KV engine (default `secret/`).'
+    },
+    {
+        name: 'vault_kv_version',
+        description: 'Version of the Vault KV engine, `1` or `2` (default `2`).',
+        valueSnippet: ' ${1|2,1|}'
+    },
+    {
+        name: 'recreation_rule',
+        description: 'Creation rule used to re-encrypt files before they are published.',
+        valueSnippet: '\n  age: ${1}'
+    },
+    {
+        name: 'omit_extensions',
+        description: 'Publish files without their file extension.',
+        valueSnippet: ' ${1|true,false|}'
+    }
+];
+
+export const STORE_FIELDS: ConfigField[] = ['yaml', 'json', 'json_binary', 'ini', 'dotenv'].map((name) => ({
+    name,
+    description: `Settings for files sops reads and writes in ${name} format.`,
+    valueSnippet: '\n  indent: ${1:2}'
+}));
+
+export const STORE_OPTION_FIELDS: ConfigField[] = [
+    {
+        name: 'indent',
+        description: 'Number of spaces sops indents output with.',
+        valueSnippet: ' ${1:2}'
+    }
+];
+
+/**
+ * Plausible key names that sops silently ignores, with the name it reads instead
+ */
+export const CONFIG_KEY_ALIASES: Record<string, string> = {
+    azure_kv: 'azure_keyvault',
+    hc_vault_transit: 'hc_vault_transit_uri',
+    hc_vault_uri: 'hc_vault_transit_uri'
+};
+
+/**
+ * Starting points for a new creation rule
+ */
+export const CREATION_RULE_SNIPPETS: { label: string; description: string; body: string }[] = [
+    {
+        label: 'age rule',
+        description: 'Encrypt matching files for age recipients',
+        body: 'path_regex: ${1:\\.enc\\.yaml$}\n  age: ${2}'
+    },
+    {
+        label: 'Kubernetes secret rule',
+        description: 'Encrypt only the data and stringData values of Kubernetes secrets',
+        body: 'path_regex: ${1:.*\\.secret\\.yaml$}\n  encrypted_regex: ^(data|stringData)$\n  age: ${2}'
+    },
+    {
+        label: 'AWS KMS rule',
+        description: 'Encrypt matching files with an AWS KMS key',
+        body: 'path_regex: ${1}\n  kms: arn:aws:kms:${2:region}:${3:account}:key/${4:id}'
+    },
+    {
+        label: 'key groups rule',
+        description: 'Split the data key across key groups with Shamir secret sharing',
+        body: 'path_regex: ${1}\n  shamir_threshold: ${2:2}\n  key_groups:\n    - age:\n        - ${3}\n    - age:\n        - ${4}'
+    },
+    {
+        label: 'catch-all rule',
+        description: 'Match every remaining file; keep it last',
+        body: 'age: ${1}'
+    }
+];
@@ -0,0 +1,533 @@
+import * as yaml from 'yaml';
+import {
+    CONFIG_KEY_ALIASES,
+    CREATION_RULE_FIELDS,
+    DESTINATION_RULE_FIELDS,
+    KEY_GROUP_FIELDS,
+    STORE_FIELDS,
+    STORE_OPTION_FIELDS,
+    TOP_LEVEL_FIELDS
+} from './configSchema';
+import { compileGoRegex } from './goRegex';
+
+/**
+ * A problem found in a .sops.yaml file, with character offsets into its content
+ */
+export interface ConfigProblem {
+    message: string;
+    severity: 'error' | 'warning';
+    start: number;
+    end: number;
+}
+
+const TOP_LEVEL_KEYS = TOP_LEVEL_FIELDS.map((field) => field.name);
+const CREATION_RULE_KEYS = CREATION_RULE_FIELDS.map((field) => field.name);
+const KEY_GROUP_KEYS = KEY_GROUP_FIELDS.map((field) => field.name);
+const DESTINATION_RULE_KEYS = DESTINATION_RULE_FIELDS.map((field) => field.name);
+const STORE_KEYS = STORE_FIELDS.map((field) => field.name);
+const STORE_OPTION_KEYS = STORE_OPTION_FIELDS.map((field) => field.name);
+
+const DESTINATION_STRING_KEYS = [
+    's3_bucket', 's3_prefix', 'gcs_bucket', 'gcs_prefix', 'vault_path', 'vault_address', 'vault_kv_mount_name'
+];
+
+// Keys that provide master keys for a creation rule
+const MASTER_KEY_KEYS = ['age', 'pgp', 'kms', 'gcp_kms', 'azure_keyvault', 'hc_vault_transit_uri', 'key_groups'];
+
+// Regexes SOPSie matches file paths with, so they must also compile in JavaScript
+const PATH_REGEX_KEYS = ['path_regex', 'filename_regex'];
+
+// Regexes only sops evaluates
+const SCOPE_REGEX_KEYS = ['encrypted_regex', 'unencrypted_regex', 'encrypted_comment_regex', 'unencrypted_comment_regex'];
+
+// sops refuses rules that combine more than one of these
+const ENCRYPTION_SCOPE_KEYS = [
+    'encrypted_suffix', 'unencrypted_suffix', 'encrypted_regex', 'unencrypted_regex',
+    'encrypted_comment_regex', 'unencrypted_comment_regex'
+];
+
+// age X25519 recipient: bech32 data after the "age1" prefix (58 characters, no "1", "b", "i" or "o")
+const AGE_RECIPIENT_REGEX = /^age1[02-9ac-hj-np-z]{58}$/;
+// age plugin recipient, e.g. age1yubikey1...
+const AGE_PLUGIN_RECIPIENT_REGEX = /^age1[a-z0-9-]+1[02-9ac-hj-np-z]+$/;
+// SSH public keys are accepted as age recipients
+const SSH_RECIPIENT_REGEX = /^ssh-(ed25519|rsa) AAAA[0-9A-Za-z+/]+=*(\s.*)?$/;
+
+const KMS_ARN_REGEX = /^arn:aws[a-z-]*:kms:[a-z0-9-]+:\d{12}:(key|alias)\/[\w/+=,.@-]+$/;
+const IAM_ROLE_ARN_REGEX = /^arn:aws[a-z-]*:iam::\d{12}:role\/[\w/+=,.@-]+$/;
+
+// Go's RE2 (used by sops) has no lookaround or backreferences
+const UNSUPPORTED_REGEX_SYNTAX = /\(\?<?[=!]|\\[1-9]/;
+
+/**
+ * Validate the content of a .sops.yaml file.
+ * Unlike parseConfig, which stops at the first problem, every problem is reported with its position.
+ */
+export function validateConfig(content: string): ConfigProblem[] {
+    const doc = yaml.parseDocument(content);
+    const problems: ConfigProblem[] = doc.errors.map((error) => ({
+        message: error.message.split('\n')[0].replace(/:$/, ''),
+        severity: 'error',
+        start: error.pos[0],
+        end: error.pos[1]
+    }));
+    if (problems.length > 0) {
+        return problems;
+    }
+
+    const root = doc.contents;
+    if (!yaml.isMap(root)) {
+        return [{ message: 'Expected a mapping with "creation_rules"', severity: 'error', start: 0, end: firstLineEnd(content) }];
+    }
+
+    const report = (node: unknown, message: string, severity: ConfigProblem['severity'] = 'error'): void => {
+        const [start, end] = getRange(node);
+        problems.push({ message, severity, start, end });
+    };
+
+    checkUnknownKeys(root, TOP_LEVEL_KEYS, 'top-level key', report);
+
+    const rules = root.get('creation_rules', true);
+    if (rules === undefined) {
+        report(root.items[0]?.key, 'Missing required "creation_rules"');
+    } else if (!yaml.isSeq(rules)) {
+        report(rules, '"creation_rules" must be a list of rules');
+    } else {
+        validateCreationRules(rules, report);
+    }
+
+    const destinationRules = root.get('destination_rules', true);
+    if (destinationRules !== undefined) {
+        if (!yaml.isSeq(destinationRules)) {
+            report(destinationRules, '"destination_rules" must be a list of rules');
+        } else {
+            destinationRules.items.forEach((rule, index) => validateDestinationRule(rule, index, report));
+        }
+    }
+
+    const stores = root.get('stores', true);
+    if (stores !== undefined) {
+        validateStores(stores, report);
+    }
+
+    return problems;
+}
+
+type Reporter = (node: unknown, message: string, severity?: ConfigProblem['severity']) => void;
+
+function validateCreationRules(rules: yaml.YAMLSeq, report: Reporter): void {
+    // Index of the first rule without path_regex/filename_regex, which matches every file
+    let catchAllIndex = -1;
+    const seenPatterns = new Map<string, number>();
+
+    rules.items.forEach((rule, index) => {
+        if (!yaml.isMap(rule)) {
+            report(rule, `creation_rules[${index}] must be a mapping`);
+            return;
+        }
+
+        const ruleStart = rule.items[0]?.key ?? rule;
+        if (catchAllIndex !== -1) {
+            report(ruleStart, `Unreachable rule: creation_rules[${catchAllIndex}] has no path_regex or filename_regex and matches every file first`, 'warning');
+        }
+
+        validateRuleFields(rule, report);
+
+        const pattern = ['path_regex', 'filename_regex']
+            .map((key) => [key, scalarValue(rule.get(key, true))] as const)
+            .find(([, value]) => typeof value === 'string');
+        if (!pattern) {
+            if (catchAllIndex === -1) {
+                catchAllIndex = index;
+            }
+        } else {
+            const patternKey = `${pattern[0]}:${pattern[1]}`;
+            const earlier = seenPatterns.get(patternKey);
+            if (earlier !== undefined && catchAllIndex === -1) {
+                report(rule.get(pattern[0], true), `Unreachable rule: creation_rules[${earlier}] has the same ${pattern[0]} and matches first`, 'warning');
+            } else if (earlier === undefined) {
+                seenPatterns.set(patternKey, index);
+            }
+        }
+
+    });
+}
+
+/**
+ * Checks shared by creation rules and the recreation_rule of destination rules
+ */
+function validateRuleFields(rule: yaml.YAMLMap, report: Reporter): void {
+    checkUnknownKeys(rule, CREATION_RULE_KEYS, 'creation rule key', report);
+    validateRegexes(rule, PATH_REGEX_KEYS, report, 'SOPSie ignores this rule when matching files');
+    validateRegexes(rule, SCOPE_REGEX_KEYS, report);
+
+    for (const key of ['encrypted_suffix', 'unencrypted_suffix', 'aws_profile']) {
+        checkType(rule, key, 'string', report);
+    }
+    checkType(rule, 'mac_only_encrypted', 'boolean', report);
+
+    const scopeKeys = rule.items
+        .map((pair) => scalarValue(pair.key))
+        .filter((key): key is string => typeof key === 'string' && ENCRYPTION_SCOPE_KEYS.includes(key));
+    if (scopeKeys.length > 1) {
+        report(rule.get(scopeKeys[1], true), `Only one of ${scopeKeys.join(', ')} can be used in a rule`);
+    }
+
+    if (!MASTER_KEY_KEYS.some((key) => rule.has(key))) {
+        report(rule.items[0]?.key ?? rule, 'Rule has no master keys (age, pgp, kms, gcp_kms, azure_keyvault, hc_vault_transit_uri or key_groups)', 'warning');
+    }
+
+    validateRecipients(rule, report);
+    validateKeyGroups(rule, report);
+}
+
+function validateDestinationRule(rule: unknown, index: number, report: Reporter): void {
+    if (!yaml.isMap(rule)) {
+        report(rule, `destination_rules[${index}] must be a mapping`);
+        return;
+    }
+
+    checkUnknownKeys(rule, DESTINATION_RULE_KEYS, 'destination rule key', report);
+    validateRegexes(rule, ['path_regex'], report);
+    for (const key of DESTINATION_STRING_KEYS) {
+        checkType(rule, key, 'string', report);
+    }
+    checkType(rule, 'omit_extensions', 'boolean', report);
+
+    const kvVersion = rule.get('vault_kv_version', true);
+    if (kvVersion !== undefined && scalarValue(kvVersion) !== 1 && scalarValue(kvVersion) !== 2) {
+        report(kvVersion, '"vault_kv_version" must be 1 or 2');
+    }
+
+    const targets = ['s3_bucket', 'gcs_bucket', 'vault_path'].filter((key) => rule.has(key));
+    if (targets.length === 0) {
+        report(rule.items[0]?.key ?? rule, 'Destination rule has no s3_bucket, gcs_bucket or vault_path', 'warning');
+    } else if (targets.length > 1) {
+        report(rule.get(targets[1], true), `Only one of ${targets.join(', ')} can be used in a destination rule`);
+    }
+
+    const recreationRule = rule.get('recreation_rule', true);
+    if (recreationRule !== undefined) {
+        if (yaml.isMap(recreationRule)) {
+            validateRuleFields(recreationRule, report);
+        } else {
+            report(recreationRule, '"recreation_rule" must be a mapping');
+        }
+    }
+}
+
+function validateStores(stores: unknown, report: Reporter): void {
+    if (!yaml.isMap(stores)) {
+        report(stores, '"stores" must be a mapping of store settings');
+        return;
+    }
+
+    checkUnknownKeys(stores, STORE_KEYS, 'store', report);
+    for (const pair of stores.items) {
+        if (!STORE_KEYS.includes(scalarValue(pair.key) as string) || pair.value === null) {
+            continue;
+        }
+        if (!yaml.isMap(pair.value)) {
+            report(pair.value, 'Store settings must be a mapping');
+            continue;
+        }
+
+        checkUnknownKeys(pair.value, STORE_OPTION_KEYS, 'store setting', report);
+        const indent = pair.value.get('indent', true);
+        const value = scalarValue(indent);
+        if (indent !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+            report(indent, '"indent" must be a non-negative integer');
+        }
+    }
+}
+
+/**
+ * Report a scalar field whose value has the wrong type
+ */
+function checkType(map: yaml.YAMLMap, key: string, type: 'string' | 'boolean', report: Reporter): void {
+    const node = map.get(key, true);
+    if (node !== undefined && typeof scalarValue(node) !== type) {
+        report(node, type === 'boolean' ? `"${key}" must be true or false` : `"${key}" must be a string`);
+    }
+}
+
+/**
+ * Check that regexes compile. Failures are warnings: sops may accept Go syntax JavaScript lacks,
+ * and ignoredEffect says what SOPSie does with a pattern it can't compile.
+ */
+function validateRegexes(
+    rule: yaml.YAMLMap,
+    keys: string[],
+    report: Reporter,
+    ignoredEffect?: string
+): void {
+    for (const key of keys) {
+        const node = rule.get(key, true);
+        if (node === undefined) {
+            continue;
+        }
+        const value = scalarValue(node);
+        if (typeof value !== 'string') {
+            report(node, `"${key}" must be a string`);
+            continue;
+        }
+        try {
+            compileGoRegex(value);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : `Invalid regular expression: ${String(error)}`;
+            const effect = ignoredEffect ? `; ${ignoredEffect}` : '';
+            report(node, `${message} (sops may still accept it as a Go regular expression${effect})`, 'warning');
+            continue;
+        }
+        if (UNSUPPORTED_REGEX_SYNTAX.test(value)) {
+            report(node, 'sops uses Go regular expressions, which do not support lookaround or backreferences', 'warning');
+        }
+    }
+}
+
+/**
+ * Validate age recipients and KMS ARNs given directly on a rule
+ */
+function validateRecipients(rule: yaml.YAMLMap, report: Reporter): void {
+    const age = rule.get('age', true);
+    if (age !== undefined) {
+        forEachListValue(age, 'age', report, (value, node) => checkAgeRecipient(value, node, report));
+    }
+
+    const kms = rule.get('kms', true);
+    if (kms !== undefined) {
+        forEachListValue(kms, 'kms', report, (value, node) => {
+            // Each entry is an ARN, optionally followed by +<role ARN>
+            const [arn, role] = value.split('+');
+            if (!KMS_ARN_REGEX.test(arn)) {
+                report(node, `Malformed KMS key ARN "${arn}" (expected arn:aws:kms:<region>:<account>:key/<id>)`);
+            } else if (role !== undefined && !IAM_ROLE_ARN_REGEX.test(role)) {
+                report(node, `Malformed IAM role ARN "${role}" (expected arn:aws:iam::<account>:role/<name>)`);
+            }
+        });
+    }
+
+    for (const key of ['pgp', 'gcp_kms', 'azure_keyvault', 'hc_vault_transit_uri']) {
+        const node = rule.get(key, true);
+        if (node !== undefined) {
+            forEachListValue(node, key, report, () => undefined);
+        }
+    }
+}
+
+function validateKeyGroups(rule: yaml.YAMLMap, report: Reporter): void {
+    const keyGroups = rule.get('key_groups', true);
+    const threshold = rule.get('shamir_threshold', true);
+
+    if (keyGroups !== undefined) {
+        if (!yaml.isSeq(keyGroups)) {
+            report(keyGroups, '"key_groups" must be a list of key groups');
+        } else {
+            keyGroups.items.forEach((group, index) => validateKeyGroup(group, `key_groups[${index}]`, report));
+        }
+    }
+
+    if (threshold === undefined) {
+        return;
+    }
+
+    const value = scalarValue(threshold);
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        report(threshold, '"shamir_threshold" must be a non-negative integer (0 uses the default)');
+        return;
+    }
+
+    // Without key_groups all keys form a single group
+    const groupCount = yaml.isSeq(keyGroups) ? keyGroups.items.length : 1;
+    if (value > groupCount) {
+        report(
+            threshold,
+            `shamir_threshold (${value}) is greater than the number of key groups (${groupCount}), so files could never be decrypted`
+        );
+    }
+}
+
+function validateKeyGroup(group: unknown, where: string, report: Reporter): void {
+    if (!yaml.isMap(group)) {
+        report(group, `${where} must be a mapping`);
+        return;
+    }
+
+    checkUnknownKeys(group, KEY_GROUP_KEYS, 'key group key', report);
+    if (group.items.length === 0) {
+        report(group, 'Key group has no keys', 'warning');
+    }
+
+    // Unlike rule-level fields, key group keys must be lists
+    for (const key of ['age', 'pgp', 'hc_vault']) {
+        const node = group.get(key, true);
+        if (node === undefined) {
+            continue;
+        }
+        if (!yaml.isSeq(node)) {
+            report(node, `"${key}" in a key group must be a list`);
+        } else if (key === 'age') {
+            forEachListValue(node, key, report, (value, item) => checkAgeRecipient(value, item, report));
+        } else {
+            forEachListValue(node, key, report, () => undefined);
+        }
+    }
+
+    forEachKeyEntry(group, 'kms', ['arn'], report, (entry) => {
+        const arn = entry.get('arn', true);
+        const arnValue = scalarValue(arn);
+        if (typeof arnValue === 'string' && !KMS_ARN_REGEX.test(arnValue)) {
+            report(arn, `Malformed KMS key ARN "${arnValue}" (expected arn:aws:kms:<region>:<account>:key/<id>)`);
+        }
+
+        const role = entry.get('role', true);
+        const roleValue = scalarValue(role);
+        if (typeof roleValue === 'string' && !IAM_ROLE_ARN_REGEX.test(roleValue)) {
+            report(role, `Malformed IAM role ARN "${roleValue}" (expected arn:aws:iam::<account>:role/<name>)`);
+        }
+    });
+    forEachKeyEntry(group, 'gcp_kms', ['resource_id'], report);
+    forEachKeyEntry(group, 'azure_keyvault', ['vaultUrl', 'key'], report);
+
+    const merge = group.get('merge', true);
+    if (merge !== undefined) {
+        if (!yaml.isSeq(merge)) {
+            report(merge, '"merge" must be a list of key groups');
+        } else {
+            merge.items.forEach((nested, index) => validateKeyGroup(nested, `merge[${index}]`, report));
+        }
+    }
+}
+
+/**
+ * Check a key group field holding a list of key mappings, e.g. kms: [{arn: ...}]
+ */
+function forEachKeyEntry(
+    group: yaml.YAMLMap,
+    key: string,
+    requiredKeys: string[],
+    report: Reporter,
+    fn?: (entry: yaml.YAMLMap) => void
+): void {
+    const node = group.get(key, true);
+    if (node === undefined) {
+        return;
+    }
+    if (!yaml.isSeq(node)) {
+        report(node, `"${key}" in a key group must be a list of {${requiredKeys.join(', ')}, ...}`);
+        return;
+    }
+
+    for (const entry of node.items) {
+        if (!yaml.isMap(entry)) {
+            report(entry, `"${key}" entries must be mappings`);
+            continue;
+        }
+        const missing = requiredKeys.filter((required) => typeof scalarValue(entry.get(required, true)) !== 'string');
+        if (missing.length > 0) {
+            report(entry, `${key} key is missing ${missing.map((name) => `"${name}"`).join(', ')}`);
+        }
+        fn?.(entry);
+    }
+}
+
+function checkAgeRecipient(value: string, node: unknown, report: Reporter): void {
+    if (!AGE_RECIPIENT_REGEX.test(value) && !AGE_PLUGIN_RECIPIENT_REGEX.test(value) && !SSH_RECIPIENT_REGEX.test(value)) {
+        report(node, `Malformed age recipient "${value}" (expected age1 followed by 58 characters, or an SSH public key)`);
+    }
+}
+
+/**
+ * Call fn for each entry of a comma-separated string or a list of strings
+ */
+function forEachListValue(
+    node: unknown,
+    key: string,
+    report: Reporter,
+    fn: (value: string, node: unknown) => void
+): void {
+    if (yaml.isSeq(node)) {
+        for (const item of node.items) {
+            const value = scalarValue(item);
+            if (typeof value !== 'string') {
+                report(item, `"${key}" entries must be strings`);
+            } else {
+                fn(value.trim(), item);
+            }
+        }
+        return;
+    }
+
+    const value = scalarValue(node);
+    if (typeof value !== 'string') {
+        report(node, `"${key}" must be a string or a list of strings`);
+        return;
+    }
+    value.split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== '')
+        .forEach((entry) => fn(entry, node));
+}
+
+function checkUnknownKeys(map: yaml.YAMLMap, knownKeys: string[], kind: string, report: Reporter): void {
+    for (const pair of map.items) {
+        const key = scalarValue(pair.key);
+        if (typeof key !== 'string' || knownKeys.includes(key)) {
+            continue;
+        }
+        const suggestion = CONFIG_KEY_ALIASES[key] ?? findClosest(key, knownKeys);
+        report(
+            pair.key,
+            `Unknown ${kind} "${key}" (ignored by sops)${suggestion && knownKeys.includes(suggestion) ? `. Did you mean "${suggestion}"?` : ''}`,
+            'warning'
+        );
+    }
+}
+
+/**
+ * Find a known key within two edits of a misspelled one
+ */
+function findClosest(key: string, knownKeys: string[]): string | undefined {
+    let best: string | undefined;
+    let bestDistance = 3;
+    for (const candidate of knownKeys) {
+        const distance = editDistance(key, candidate);
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function scalarValue(node: unknown): unknown {
+    return yaml.isScalar(node) ? node.value : undefined;
+}
+
+function getRange(node: unknown): [number, number] {
+    if (yaml.isNode(node) && node.range) {
+        return [node.range[0], node.range[1]];
+    }
+    return [0, 0];
+}
+
+function firstLineEnd(content: string): number {
+    const end = content.search(/\r?\n/);
+    return end === -1 ? content.length : end;
+}
@@ -0,0 +1,22 @@
+// Leading Go flag group, e.g. (?i) or (?is)
+const GO_FLAG_GROUP_REGEX = /^\(\?([a-zA-Z]+)\)/;
+// Go flags with the same meaning in JavaScript
+const TRANSLATABLE_FLAGS = new Set(['i', 'm', 's']);
+
+/**
+ * Compile a Go regular expression, as used by sops for path_regex and filename_regex, in JavaScript.
+ * Translates a leading flag group such as (?i) into RegExp flags and Go's (?P<name>...) groups.
+ * Throws like the RegExp constructor for patterns JavaScript can't express.
+ */
+export function compileGoRegex(pattern: string): RegExp {
+    let source = pattern;
+    let flags = '';
+
+    const flagGroup = GO_FLAG_GROUP_REGEX.exec(source);
+    if (flagGroup && [...flagGroup[1]].every((flag) => TRANSLATABLE_FLAGS.has(flag))) {
+        flags = [...new Set(flagGroup[1])].join('');
+        source = source.slice(flagGroup[0].length);
+    }
+
+    return new RegExp(source.replace(/\(\?P</g, '(?<'), flags);
+}
@@ -0,0 +1,137 @@
+import { KeyGroup, SopsCreationRule, SopsMetadata, SopsRecipient, SopsRecipientType } from '../types';
+
+/**
+ * Difference between the recipients a file is encrypted for and those its creation rule expects
+ */
+export interface RecipientDrift {
+    /** Recipients in the rule that cannot yet decrypt the file */
+    missing: SopsRecipient[];
+    /** Recipients that can decrypt the file but are no longer in the rule */
+    extra: SopsRecipient[];
+}
+
+/**
+ * Get the recipients of a creation rule, one array per key group.
+ * Rules without key_groups have a single group built from the top-level key fields.
+ */
+export function getRuleRecipientGroups(rule: SopsCreationRule): SopsRecipient[][] {
+    if (rule.key_groups && rule.key_groups.length > 0) {
+        return rule.key_groups.map((group) => getKeyGroupRecipients(group));
+    }
+
+    const recipients: SopsRecipient[] = [];
+    addIds(recipients, 'age', rule.age);
+    addIds(recipients, 'pgp', rule.pgp);
+    // KMS entries may be written as "arn+role"; only the ARN identifies the key
+    addIds(recipients, 'kms', rule.kms?.map((entry) => entry.split('+')[0]));
+    addIds(recipients, 'gcp_kms', rule.gcp_kms);
+    addIds(recipients, 'azure_kv', rule.azure_keyvault);
+    addIds(recipients, 'hc_vault_transit', rule.hc_vault_transit_uri);
+    return [recipients];
+}
+
+/**
+ * Get the recipients of a key group, including those of groups merged into it
+ */
+function getKeyGroupRecipients(group: KeyGroup): SopsRecipient[] {
+    const recipients: SopsRecipient[] = [];
+    addIds(recipients, 'age', group.age);
+    addIds(recipients, 'pgp', group.pgp);
+    addIds(recipients, 'kms', group.kms?.map((key) => key.arn));
+    addIds(recipients, 'gcp_kms', group.gcp_kms?.map((key) => key.resource_id));
+    addIds(recipients, 'azure_kv', group.azure_keyvault?.map(
+        (key) => `${key.vaultUrl.replace(/\/+$/, '')}/keys/${key.key}${key.version ? `/${key.version}` : ''}`
+    ));
+    addIds(recipients, 'hc_vault_transit', group.hc_vault);
+    for (const nested of group.merge ?? []) {
+        recipients.push(...getKeyGroupRecipients(nested));
+    }
+    return recipients;
+}
+
+/**
+ * Compare the recipients recorded in a file's metadata with its creation rule.
+ * Returns null when both sides name the same set of keys, or when the rule names no keys:
+ * its files then get their recipients from elsewhere, e.g. SOPS_AGE_RECIPIENTS or SOPS_PGP_FP.
+ */
+export function findRecipientDrift(metadata: SopsMetadata, rule: SopsCreationRule): RecipientDrift | null {
+    const ruleRecipients = getRuleRecipientGroups(rule).flat();
+    if (ruleRecipients.length === 0) {
+        return null;
+    }
+    const fileRecipients = metadata.keyGroups.flat();
+
+    const ruleKeys = new Set(ruleRecipients.map(getRecipientKey));
+    const fileKeys = new Set(fileRecipients.map(getRecipientKey));
+
+    const missing = dedupe(ruleRecipients.filter((r) => !fileKeys.has(getRecipientKey(r))));
+    const extra = dedupe(fileRecipients.filter((r) => !ruleKeys.has(getRecipientKey(r))));
+
+    if (missing.length === 0 && extra.length === 0) {
+        return null;
+    }
+    return { missing, extra };
+}
+
+/**
+ * Short human-readable description of a drift, e.g. for diagnostics and tooltips
+ */
+export function describeRecipientDrift(drift: RecipientDrift): string {
+    const parts: string[] = [];
+    if (drift.missing.length > 0) {
+        parts.push(`missing ${drift.missing.map(formatRecipient).join(', ')}`);
+    }
+    if (drift.extra.length > 0) {
+        parts.push(`no longer in rule ${drift.extra.map(formatRecipient).join(', ')}`);
+    }
+    return parts.join('; ');
+}
+
+/**
+ * Format a recipient as "type id" for display
+ */
+export function formatRecipient(recipient: SopsRecipient): string {
+    return `${recipient.type} ${recipient.id}`;
+}
+
+/**
+ * Normalized comparison key for a recipient
+ */
+export function getRecipientKey(recipient: SopsRecipient): string {
+    let id = recipient.id.trim();
+    switch (recipient.type) {
+        case 'pgp':
+            // Fingerprints may be written in any case and with spaces
+            id = id.replace(/\s+/g, '').toUpperCase();
+            break;
+        case 'azure_kv':
+            // SOPS records the resolved key version even when the rule omits it
+            id = id.toLowerCase().replace(/\/+$/, '').replace(/(\/keys\/[^/]+)\/[^/]+$/, '$1');
+            break;
+        case 'hc_vault_transit':
+            id = id.replace(/\/+$/, '');
+            break;
+    }
+    return `${recipient.type}:${id}`;
+}
+
+function addIds(target: SopsRecipient[], type: SopsRecipientType, ids: string[] | undefined): void {
+    for (const id of ids ?? []) {
+        const trimmed = String(id).trim();
+        if (trimmed) {
+            target.push({ type, id: trimmed });
+        }
+    }
+}
+
+function dedupe(recipients: SopsRecipient[]): SopsRecipient[] {
+    const seen = new Set<string>();
+    return recipients.filter((recipient) => {
+        const key = getRecipientKey(recipient);
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
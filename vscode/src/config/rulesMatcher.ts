@@ -1,7 +1,76 @@
-import * as vscode from 'vscode';
+// Type-only vscode import: this module is also bundled into the git pre-commit hook
+import type * as vscode from 'vscode';
 import * as path from 'path';
 import { SopsConfig, SopsCreationRule } from '../types';
-import { logger } from '../services/loggerService';
+import { compileGoRegex } from './goRegex';
+
+// Files that can never be SOPS targets: configs themselves and our own temp files
+const IGNORED_FILE_REGEX = /(^|[\\/])(\.sops\.ya?ml|\.sopsie-temp-[^\\/]*)$/;
+
+// Formats sops encrypts value by value; everything else is stored as binary
+const STRUCTURED_FILE_REGEX = /\.(ya?ml|json|env|ini)$/i;
+
+/**
+ * Check whether a file can never be a SOPS target
+ */
+export function isIgnoredFile(filePath: string): boolean {
+    return IGNORED_FILE_REGEX.test(filePath);
+}
+
+/**
+ * Check whether a file is YAML, JSON, dotenv or INI, which can be inspected for plaintext values
+ */
+export function isStructuredFile(filePath: string): boolean {
+    return STRUCTURED_FILE_REGEX.test(filePath);
+}
+
+/**
+ * Check whether a rule has neither path_regex nor filename_regex and so matches every file.
+ * Such rules only set defaults for sops, so they don't mark files as secrets.
+ */
+export function isCatchAllRule(rule: SopsCreationRule): boolean {
+    return !rule.path_regex && !rule.filename_regex;
+}
+
+// Characters that stand for themselves in a regex
+const LITERAL_CHAR_REGEX = /[A-Za-z0-9_/-]/;
+
+/**
+ * Get the directory, relative to the config, that every file a rule can match lies in.
+ * Returns '' when the rule may match files anywhere, e.g. without an anchored path_regex.
+ */
+export function getRuleDirectory(rule: SopsCreationRule): string {
+    const pattern = rule.path_regex;
+    if (!pattern?.startsWith('^') || pattern.includes('|')) {
+        return '';
+    }
+
+    let literal = '';
+    let index = 1;
+    while (index < pattern.length) {
+        const char = pattern[index];
+        if (char === '\\' && index + 1 < pattern.length && !/[A-Za-z0-9]/.test(pattern[index + 1])) {
+            literal += pattern[index + 1];
+            index += 2;
+        } else if (LITERAL_CHAR_REGEX.test(char)) {
+            literal += char;
+            index++;
+        } else {
+            break;
+        }
+    }
+    // A quantifier makes the preceding character optional or repeated
+    if (/^[?*{]/.test(pattern.slice(index))) {
+        literal = literal.slice(0, -1);
+    }
+
+    const directory = literal.slice(0, literal.lastIndexOf('/') + 1);
+    // Absolute and relative-to-parent paths are left to the full search
+    if (directory.startsWith('/') || directory.split('/').some((part) => part === '.' || part === '..')) {
+        return '';
+    }
+    return directory;
+}
 
 // Cache for compiled regex patterns (null means invalid regex)
 const regexCache = new Map<string, RegExp | null>();
@@ -27,7 +96,7 @@ function getCachedRegex(pattern: string): RegExp | null {
     }
 
     try {
-        const regex = new RegExp(pattern);
+        const regex = compileGoRegex(pattern);
 
         // Evict oldest entry if cache is full (Map iterates in insertion order)
         if (regexCache.size >= MAX_REGEX_CACHE_SIZE) {
@@ -40,7 +109,7 @@ function getCachedRegex(pattern: string): RegExp | null {
         regexCache.set(pattern, regex);
         return regex;
     } catch {
-        logger.warn(`Invalid regex pattern: ${pattern}`);
+        // Go syntax JavaScript can't express; configValidator warns and the rule never matches
         regexCache.set(pattern, null);
         return null;
     }
@@ -60,26 +129,64 @@ export class RulesMatcher {
      * SOPS uses first-match semantics
      */
     findMatchingRule(fileUri: vscode.Uri): SopsCreationRule | null {
-        const { normalizedPath, filename } = this.getNormalizedPaths(fileUri);
+        return this.findMatchingRuleForPath(fileUri.fsPath);
+    }
+
+    /**
+     * Find the first matching creation rule for an absolute file path
+     */
+    findMatchingRuleForPath(filePath: string): SopsCreationRule | null {
+        const index = this.findMatchingRuleIndexForPath(filePath);
+        return index === -1 ? null : this.config.creation_rules[index];
+    }
+
+    /**
+     * Find the index of the first matching creation rule for a file.
+     * Returns -1 when no rule matches.
+     */
+    findMatchingRuleIndex(fileUri: vscode.Uri): number {
+        return this.findMatchingRuleIndexForPath(fileUri.fsPath);
+    }
 
-        for (const rule of this.config.creation_rules) {
+    /**
+     * Find the index of the first matching creation rule for an absolute file path.
+     * Returns -1 when no rule matches.
+     */
+    findMatchingRuleIndexForPath(filePath: string): number {
+        const { normalizedPath, filename } = this.getNormalizedPaths(filePath);
+
+        return this.config.creation_rules.findIndex(
+            (rule) => this.ruleMatches(rule, normalizedPath, filename)
+        );
+    }
+
+    /**
+     * Find the indices of every creation rule that matches an absolute file path, in rule order.
+     * The first index is the rule SOPS uses; the others are shadowed by it.
+     */
+    findMatchingRuleIndicesForPath(filePath: string): number[] {
+        const { normalizedPath, filename } = this.getNormalizedPaths(filePath);
+
+        const indices: number[] = [];
+        this.config.creation_rules.forEach((rule, index) => {
             if (this.ruleMatches(rule, normalizedPath, filename)) {
-                return rule;
+                indices.push(index);
             }
-        }
-
-        return null;
+        });
+        return indices;
     }
 
     /**
-     * Get normalized path components for a file URI
+     * Get normalized path components for a file path
      */
-    private getNormalizedPaths(fileUri: vscode.Uri): { normalizedPath: string; filename: string } {
-        // SOPS matches against path relative to .sops.yaml location
-        const relativePath = path.relative(this.configDir, fileUri.fsPath);
+    private getNormalizedPaths(filePath: string): { normalizedPath: string; filename: string } {
+        // SOPS matches against path relative to .sops.yaml location, and against the
+        // absolute path for files outside its directory (e.g. with --config)
+        const relativePath = path.relative(this.configDir, filePath);
+        const isOutside = relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath);
         // Normalize path separators for regex matching (always use forward slashes)
-        const normalizedPath = relativePath.replace(/\\/g, '/');
-        const filename = path.basename(fileUri.fsPath);
+        const normalizedPath = (isOutside ? filePath : relativePath).replace(/\\/g, '/');
+        const filename = path.basename(filePath);
         return { normalizedPath, filename };
     }
 
@@ -3,24 +3,59 @@ import { ConfigManager } from './config/configManager';
 import { ContextManager } from './context/contextManager';
 import { SopsRunner } from './sops/sopsRunner';
 import { SopsDetector } from './sops/sopsDetector';
+import { GitRunner } from './git/gitRunner';
+import { CommitGuard } from './git/commitGuard';
 import { DecryptedContentProvider } from './providers/decryptedContentProvider';
+import { DecryptedFileSystemProvider } from './providers/decryptedFileSystemProvider';
+import { DecryptedGitContentProvider } from './providers/decryptedGitContentProvider';
 import { StatusBarProvider } from './providers/statusBarProvider';
+import { SecretsTreeProvider } from './providers/secretsTreeProvider';
+import { FileHistoryTreeProvider } from './providers/fileHistoryTreeProvider';
+import { PlaintextDiagnosticsProvider } from './providers/plaintextDiagnosticsProvider';
+import { ConfigDiagnosticsProvider } from './providers/configDiagnosticsProvider';
+import { ConfigCompletionProvider } from './providers/configCompletionProvider';
+import { RuleTesterProvider } from './providers/ruleTesterProvider';
+import { RecipientDriftProvider } from './providers/recipientDriftProvider';
+import { EncryptedValueProvider } from './providers/encryptedValueProvider';
 import { ConfigWatcher } from './watchers/configWatcher';
 import { DocumentWatcher } from './watchers/documentWatcher';
+import { FileStateTracker } from './state/fileStateTracker';
 import { registerDecryptCommand } from './commands/decryptCommand';
 import { registerEncryptCommand } from './commands/encryptCommand';
 import { registerPreviewCommand, registerReloadConfigCommand } from './commands/previewCommand';
 import { registerEditInPlaceCommand } from './commands/editInPlaceCommand';
 import { registerSwitchToEditInPlaceCommand } from './commands/switchToEditInPlaceCommand';
-import { registerUpdateKeysCommand, registerRotateCommand } from './commands/keyCommands';
-import { TempFileHandler } from './handlers/tempFileHandler';
-import { SOPS_DECRYPTED_SCHEME } from './types';
+import {
+    registerUpdateKeysCommand,
+    registerRotateCommand,
+    registerBulkUpdateKeysCommand,
+    registerBulkRotateCommand
+} from './commands/keyCommands';
+import {
+    registerDiffWithHeadCommand,
+    registerDiffRevisionsCommand,
+    registerOpenRevisionCommand
+} from './commands/diffCommand';
+import { SOPS_DECRYPTED_SCHEME, SOPS_EDIT_SCHEME, SOPS_GIT_SCHEME } from './types';
 import { getErrorMessage } from './utils/errorUtils';
 import { SettingsService } from './services/settingsService';
+import { EnvironmentService } from './services/environmentService';
 import { EditorGroupTracker } from './services/editorGroupTracker';
 import { DecryptedViewService } from './services/decryptedViewService';
+import { InactivityService } from './services/inactivityService';
+import { TempFileRecoveryService } from './services/tempFileRecoveryService';
 import { LoggerService, logger } from './services/loggerService';
 import { registerToggleDebugCommand } from './commands/debugCommand';
+import { registerShowMetadataCommand } from './commands/metadataCommand';
+import { registerResolveConflictCommand } from './commands/conflictCommand';
+import { registerEditKeyCommand } from './commands/editKeyCommand';
+import { registerInstallHookCommand } from './commands/hookCommand';
+import { registerShowRuleMatchesCommand, registerTestRulePathCommand } from './commands/ruleTesterCommands';
+import {
+    registerRevealValueCommand,
+    registerHideValueCommand,
+    registerCopyValueCommand
+} from './commands/valueCommands';
 
 export async function activate(context: vscode.ExtensionContext) {
     // Initialize logger first (before any logging calls)
@@ -33,16 +68,19 @@ export async function activate(context: vscode.ExtensionContext) {
     logger.info('SOPSie extension activating...');
 
     // Initialize core services
-    const configManager = new ConfigManager();
+    const environmentService = new EnvironmentService(settingsService);
+    const configManager = new ConfigManager(settingsService, environmentService, context.globalState);
     const contextManager = new ContextManager();
-    const sopsRunner = new SopsRunner(settingsService);
     const sopsDetector = new SopsDetector();
+    const sopsRunner = new SopsRunner(settingsService, sopsDetector, configManager, environmentService);
+    const gitRunner = new GitRunner();
     const statusBarProvider = new StatusBarProvider();
+    const fileStateTracker = new FileStateTracker();
     const editorGroupTracker = new EditorGroupTracker(settingsService);
-    const tempFileHandler = new TempFileHandler(sopsRunner);
+    const decryptedFileSystemProvider = new DecryptedFileSystemProvider(sopsRunner);
     const decryptedViewService = new DecryptedViewService(
         sopsRunner,
-        tempFileHandler,
+        decryptedFileSystemProvider,
         settingsService,
         editorGroupTracker
     );
@@ -62,6 +100,24 @@ export async function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Register TextDocumentContentProvider for decrypted git revisions (diff views)
+    const decryptedGitContentProvider = new DecryptedGitContentProvider(gitRunner, sopsRunner, sopsDetector);
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(
+            SOPS_GIT_SCHEME,
+            decryptedGitContentProvider
+        )
+    );
+
+    // Register in-memory FileSystemProvider for edit-in-place documents
+    context.subscriptions.push(
+        vscode.workspace.registerFileSystemProvider(
+            SOPS_EDIT_SCHEME,
+            decryptedFileSystemProvider,
+            { isCaseSensitive: true }
+        )
+    );
+
     // Initialize document watcher
     const documentWatcher = new DocumentWatcher(
         configManager,
@@ -72,7 +128,124 @@ export async function activate(context: vscode.ExtensionContext) {
         decryptedContentProvider,
         settingsService,
         editorGroupTracker,
-        decryptedViewService
+        decryptedViewService,
+        fileStateTracker
+    );
+
+    // Register the SOPS Secrets tree view
+    const secretsTreeProvider = new SecretsTreeProvider(
+        configManager,
+        sopsDetector,
+        fileStateTracker
+    );
+    context.subscriptions.push(
+        vscode.window.createTreeView('sopsie.secrets', {
+            treeDataProvider: secretsTreeProvider,
+            showCollapseAll: true
+        }),
+        vscode.commands.registerCommand('sopsie.refreshSecrets', () => {
+            secretsTreeProvider.refresh();
+        })
+    );
+
+    // Register the SOPS File History tree view for the active file
+    const fileHistoryProvider = new FileHistoryTreeProvider(configManager, gitRunner);
+    const fileHistoryView = vscode.window.createTreeView('sopsie.history', {
+        treeDataProvider: fileHistoryProvider
+    });
+    const gitHeadWatcher = vscode.workspace.createFileSystemWatcher('**/.git/logs/HEAD');
+    context.subscriptions.push(
+        fileHistoryView,
+        fileHistoryProvider.onDidChangeTreeData(() => {
+            const file = fileHistoryProvider.getCurrentFile();
+            fileHistoryView.description = file ? vscode.workspace.asRelativePath(file) : undefined;
+        }),
+        // New commits, checkouts and resets all append to the HEAD reflog
+        gitHeadWatcher,
+        gitHeadWatcher.onDidChange(() => fileHistoryProvider.refresh()),
+        gitHeadWatcher.onDidCreate(() => fileHistoryProvider.refresh()),
+        vscode.commands.registerCommand('sopsie.refreshHistory', () => {
+            fileHistoryProvider.refresh();
+        })
+    );
+
+    // Flag rule-matched files that are stored unencrypted
+    const plaintextDiagnosticsProvider = new PlaintextDiagnosticsProvider(
+        configManager,
+        sopsDetector,
+        settingsService
+    );
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' },
+            plaintextDiagnosticsProvider,
+            { providedCodeActionKinds: PlaintextDiagnosticsProvider.providedCodeActionKinds }
+        )
+    );
+
+    // Flag problems in .sops.yaml files
+    const configDiagnosticsProvider = new ConfigDiagnosticsProvider(configManager);
+
+    // Completions and hovers while editing .sops.yaml files
+    const configCompletionProvider = new ConfigCompletionProvider(configManager);
+
+    // Show which files each creation rule applies to
+    const ruleTesterProvider = new RuleTesterProvider(configManager);
+
+    // The selector includes the configs set with sopsie.configPath or SOPS_CONFIG, so register again when they change
+    const registerConfigEditorProviders = (): vscode.Disposable => {
+        const configFileSelector = configManager.getConfigDocumentSelector();
+        return vscode.Disposable.from(
+            vscode.languages.registerCompletionItemProvider(configFileSelector, configCompletionProvider),
+            vscode.languages.registerHoverProvider(configFileSelector, configCompletionProvider),
+            vscode.languages.registerCodeLensProvider(configFileSelector, ruleTesterProvider)
+        );
+    };
+    let configEditorProviders = registerConfigEditorProviders();
+    context.subscriptions.push(
+        configManager.onDidChangeExplicitConfigs(() => {
+            configEditorProviders.dispose();
+            configEditorProviders = registerConfigEditorProviders();
+        }),
+        { dispose: () => configEditorProviders.dispose() }
+    );
+
+    // Flag encrypted files whose recipients no longer match their rule
+    const recipientDriftProvider = new RecipientDriftProvider(configManager, settingsService);
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' },
+            recipientDriftProvider,
+            { providedCodeActionKinds: RecipientDriftProvider.providedCodeActionKinds }
+        )
+    );
+
+    // Reveal or copy single encrypted values from hovers and CodeLenses
+    const encryptedValueProvider = new EncryptedValueProvider(sopsRunner, sopsDetector, settingsService);
+    const structuredFileSelector: vscode.DocumentSelector = { scheme: 'file', pattern: '**/*.{yaml,yml,json}' };
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(structuredFileSelector, encryptedValueProvider),
+        vscode.languages.registerCodeLensProvider(structuredFileSelector, encryptedValueProvider)
+    );
+
+    // Hide decrypted content on unattended screens
+    const inactivityService = new InactivityService(
+        settingsService,
+        editorGroupTracker,
+        fileStateTracker,
+        decryptedContentProvider,
+        decryptedGitContentProvider,
+        encryptedValueProvider,
+        sopsRunner
+    );
+
+    // Keep unencrypted SOPS files out of git commits
+    const commitGuard = new CommitGuard(
+        configManager,
+        sopsDetector,
+        fileStateTracker,
+        gitRunner,
+        settingsService
     );
 
     // Register commands
@@ -122,6 +295,30 @@ export async function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    context.subscriptions.push(
+        registerBulkUpdateKeysCommand(
+            sopsRunner,
+            sopsDetector,
+            configManager,
+            settingsService,
+            async () => {
+                await documentWatcher.updateCurrentEditor();
+            }
+        )
+    );
+
+    context.subscriptions.push(
+        registerBulkRotateCommand(
+            sopsRunner,
+            sopsDetector,
+            configManager,
+            settingsService,
+            async () => {
+                await documentWatcher.updateCurrentEditor();
+            }
+        )
+    );
+
     context.subscriptions.push(
         registerReloadConfigCommand(async () => {
             await configManager.initialize();
@@ -129,6 +326,52 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(registerShowMetadataCommand());
+
+    context.subscriptions.push(registerDiffWithHeadCommand(gitRunner));
+
+    context.subscriptions.push(registerDiffRevisionsCommand(gitRunner));
+
+    context.subscriptions.push(registerOpenRevisionCommand());
+
+    context.subscriptions.push(registerRevealValueCommand(encryptedValueProvider));
+
+    context.subscriptions.push(registerHideValueCommand(encryptedValueProvider));
+
+    context.subscriptions.push(registerCopyValueCommand(sopsRunner, settingsService));
+
+    context.subscriptions.push(
+        registerEditKeyCommand(
+            sopsRunner,
+            sopsDetector,
+            decryptedContentProvider,
+            async () => {
+                await documentWatcher.updateCurrentEditor();
+            }
+        )
+    );
+
+    context.subscriptions.push(
+        registerResolveConflictCommand(
+            gitRunner,
+            sopsRunner,
+            sopsDetector,
+            decryptedFileSystemProvider
+        )
+    );
+
+    context.subscriptions.push(
+        registerInstallHookCommand(
+            gitRunner,
+            configManager,
+            vscode.Uri.joinPath(context.extensionUri, 'dist', 'preCommitHook.js').fsPath
+        )
+    );
+
+    context.subscriptions.push(registerTestRulePathCommand(configManager));
+
+    context.subscriptions.push(registerShowRuleMatchesCommand(ruleTesterProvider));
+
     // Register debug toggle command
     context.subscriptions.push(registerToggleDebugCommand());
 
@@ -169,6 +412,22 @@ export async function activate(context: vscode.ExtensionContext) {
     const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{yaml,yml,json,env,ini}');
     fileWatcher.onDidChange((uri) => {
         decryptedContentProvider.refresh(uri.fsPath);
+        decryptedGitContentProvider.refresh(uri.fsPath);
+        secretsTreeProvider.refresh();
+        plaintextDiagnosticsProvider.updateFile(uri);
+        recipientDriftProvider.updateFile(uri);
+        configCompletionProvider.clearRecipientCache();
+    });
+    fileWatcher.onDidCreate((uri) => {
+        secretsTreeProvider.refresh();
+        plaintextDiagnosticsProvider.updateFile(uri);
+        recipientDriftProvider.updateFile(uri);
+        configCompletionProvider.clearRecipientCache();
+    });
+    fileWatcher.onDidDelete((uri) => {
+        secretsTreeProvider.refresh();
+        plaintextDiagnosticsProvider.removeFile(uri);
+        recipientDriftProvider.removeFile(uri);
     });
     context.subscriptions.push(fileWatcher);
 
@@ -184,6 +443,22 @@ export async function activate(context: vscode.ExtensionContext) {
                 contextManager.setEditInPlaceContext(settingsService.useEditInPlace());
                 documentWatcher.updateCurrentEditor();
 
+                if (e.affectsConfiguration('sopsie.warnUnencryptedFiles')) {
+                    plaintextDiagnosticsProvider.scanWorkspace();
+                }
+                if (e.affectsConfiguration('sopsie.warnOutdatedRecipients')) {
+                    recipientDriftProvider.scanWorkspace();
+                }
+                if (e.affectsConfiguration('sopsie.showValueCodeLens')) {
+                    encryptedValueProvider.refresh();
+                }
+                if (e.affectsConfiguration('sopsie.idleTimeout')) {
+                    inactivityService.resetTimer();
+                }
+                if (e.affectsConfiguration('sopsie.configPath')) {
+                    configManager.refreshExplicitConfigs();
+                }
+
                 // Update log level if debug setting changed
                 if (e.affectsConfiguration('sopsie.enableDebugLogging')) {
                     loggerService.updateLogLevel(settingsService.isDebugLoggingEnabled());
@@ -198,9 +473,22 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(statusBarProvider);
     context.subscriptions.push(configWatcher);
     context.subscriptions.push(documentWatcher);
+    context.subscriptions.push(fileStateTracker);
+    context.subscriptions.push(secretsTreeProvider);
+    context.subscriptions.push(fileHistoryProvider);
+    context.subscriptions.push(plaintextDiagnosticsProvider);
+    context.subscriptions.push(configDiagnosticsProvider);
+    context.subscriptions.push(configCompletionProvider);
+    context.subscriptions.push(ruleTesterProvider);
+    context.subscriptions.push(recipientDriftProvider);
+    context.subscriptions.push(encryptedValueProvider);
+    context.subscriptions.push(inactivityService);
+    context.subscriptions.push(commitGuard);
     context.subscriptions.push(decryptedContentProvider);
+    context.subscriptions.push(decryptedGitContentProvider);
     context.subscriptions.push(settingsService);
-    context.subscriptions.push(tempFileHandler);
+    context.subscriptions.push(environmentService);
+    context.subscriptions.push(decryptedFileSystemProvider);
     context.subscriptions.push(editorGroupTracker);
     context.subscriptions.push(decryptedViewService);
     context.subscriptions.push(loggerService);
@@ -208,9 +496,29 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize context for currently open editor
     await documentWatcher.updateCurrentEditor();
 
+    // Documents opened before activation, e.g. a loose file that triggered it, missed onDidOpenTextDocument
+    for (const doc of vscode.workspace.textDocuments) {
+        configManager.ensureConfigsFor(doc.uri).catch((error) => {
+            logger.error(`Failed to search for configs for ${doc.uri.fsPath}: ${getErrorMessage(error)}`);
+        });
+    }
+
+    // Initial workspace scan runs in the background
+    plaintextDiagnosticsProvider.scanWorkspace();
+    configDiagnosticsProvider.scanWorkspace();
+    recipientDriftProvider.scanWorkspace();
+
+    commitGuard.initialize();
+
+    // Clean up plaintext temp files left behind by a crash
+    new TempFileRecoveryService(configManager, sopsRunner, sopsDetector).recoverOrphanedFiles();
+
     // Check if SOPS CLI is available
     const cliAvailable = await sopsRunner.checkCliAvailable();
-    if (!cliAvailable) {
+    if (!cliAvailable && configManager.getLoadedConfigs().length === 0) {
+        // Activated on startup in a workspace without a SOPS config; don't nag
+        logger.info('SOPS CLI not found');
+    } else if (!cliAvailable) {
         const action = await vscode.window.showWarningMessage(
             'SOPS CLI not found. Some features may not work.',
             'Install Guide',
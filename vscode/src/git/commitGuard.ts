@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { API, GitExtension, Repository } from './git';
+import { GitRunner } from './gitRunner';
+import { ConfigManager } from '../config/configManager';
+import { isCatchAllRule, isIgnoredFile, isStructuredFile } from '../config/rulesMatcher';
+import { SopsDetector } from '../sops/sopsDetector';
+import { FileStateTracker } from '../state/fileStateTracker';
+import { SettingsService } from '../services/settingsService';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+// Staging several files fires a burst of repository state changes
+const CHECK_DEBOUNCE_MS = 300;
+
+/**
+ * Keeps plaintext SOPS files out of git using the built-in Git extension API.
+ * Warns about files that match a creation rule but are staged unencrypted (or are decrypted
+ * in an editor), and unstages them when preventPlaintextCommits is "unstage". The API has no
+ * pre-commit hook, so commits that stage and commit in one step are checked right after the commit instead.
+ */
+export class CommitGuard implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private repositoryDisposables = new Map<Repository, vscode.Disposable>();
+    private checkTimers = new Map<Repository, NodeJS.Timeout>();
+    // Staged plaintext files already warned about, so each staging warns once
+    private warnedFiles = new Set<string>();
+
+    constructor(
+        private configManager: ConfigManager,
+        private sopsDetector: SopsDetector,
+        private fileStateTracker: FileStateTracker,
+        private gitRunner: GitRunner,
+        private settingsService: SettingsService
+    ) {}
+
+    /**
+     * Connect to the Git extension and watch its repositories
+     */
+    async initialize(): Promise<void> {
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            logger.debug('[CommitGuard] Git extension not available');
+            return;
+        }
+
+        let api: API;
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            api = gitExtension.getAPI(1);
+        } catch (error) {
+            logger.debug(`[CommitGuard] Git extension API unavailable: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        api.repositories.forEach((repository) => this.watchRepository(repository));
+        this.disposables.push(
+            api.onDidOpenRepository((repository) => this.watchRepository(repository)),
+            api.onDidCloseRepository((repository) => this.unwatchRepository(repository))
+        );
+        logger.debug(`[CommitGuard] Watching ${api.repositories.length} repositories`);
+    }
+
+    private watchRepository(repository: Repository): void {
+        if (this.repositoryDisposables.has(repository)) {
+            return;
+        }
+
+        const disposables = [repository.state.onDidChange(() => this.scheduleIndexCheck(repository))];
+        if (repository.onDidCommit) {
+            disposables.push(repository.onDidCommit(() => this.checkLastCommit(repository)));
+        }
+        this.repositoryDisposables.set(repository, vscode.Disposable.from(...disposables));
+        this.scheduleIndexCheck(repository);
+    }
+
+    private unwatchRepository(repository: Repository): void {
+        this.repositoryDisposables.get(repository)?.dispose();
+        this.repositoryDisposables.delete(repository);
+
+        const timer = this.checkTimers.get(repository);
+        if (timer) {
+            clearTimeout(timer);
+            this.checkTimers.delete(repository);
+        }
+    }
+
+    private scheduleIndexCheck(repository: Repository): void {
+        const existing = this.checkTimers.get(repository);
+        if (existing) {
+            clearTimeout(existing);
+        }
+        this.checkTimers.set(repository, setTimeout(() => {
+            this.checkTimers.delete(repository);
+            this.checkIndex(repository);
+        }, CHECK_DEBOUNCE_MS));
+    }
+
+    /**
+     * Check whether a file matches a creation rule and must only be committed encrypted.
+     * Only structured files are checked, and catch-all rules don't count.
+     */
+    private isGuarded(uri: vscode.Uri): boolean {
+        if (isIgnoredFile(uri.fsPath) || !isStructuredFile(uri.fsPath)) {
+            return false;
+        }
+        const rule = this.configManager.findMatchingRule(uri);
+        return rule !== null && !isCatchAllRule(rule);
+    }
+
+    /**
+     * Check whether a guarded file would be committed in plaintext
+     * @param content Content that would be committed, or null if it could not be read
+     */
+    private isPlaintext(uri: vscode.Uri, content: string | null): boolean {
+        if (this.fileStateTracker.isMarkedDecrypted(uri)) {
+            return true;
+        }
+        return content !== null && !this.sopsDetector.isContentEncrypted(content);
+    }
+
+    /**
+     * Warn about rule-matched files whose staged content is not encrypted, and unstage them
+     * when preventPlaintextCommits is "unstage"
+     */
+    private async checkIndex(repository: Repository): Promise<void> {
+        const mode = this.settingsService.getPlaintextCommitGuard();
+        if (mode === 'off') {
+            return;
+        }
+
+        const plaintext: vscode.Uri[] = [];
+        const stillStaged = new Set<string>();
+        try {
+            for (const { uri } of repository.state.indexChanges.filter((change) => this.isGuarded(change.uri))) {
+                // An empty ref reads the staged version from the index
+                const staged = await this.gitRunner.getFileAtRef(uri.fsPath, '');
+                if (this.isPlaintext(uri, staged)) {
+                    stillStaged.add(uri.fsPath);
+                    if (mode === 'unstage' || !this.warnedFiles.has(uri.fsPath)) {
+                        plaintext.push(uri);
+                    }
+                }
+            }
+        } catch (error) {
+            logger.error(`[CommitGuard] Failed to check staged files: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        // Warn again once a file is encrypted or unstaged and then staged in plaintext again
+        this.warnedFiles.forEach((filePath) => {
+            if (!stillStaged.has(filePath)) {
+                this.warnedFiles.delete(filePath);
+            }
+        });
+        if (plaintext.length === 0) {
+            return;
+        }
+        plaintext.forEach((uri) => this.warnedFiles.add(uri.fsPath));
+
+        let unstaged = false;
+        if (mode === 'unstage') {
+            try {
+                await repository.revert(plaintext.map((uri) => uri.fsPath));
+                unstaged = true;
+                logger.info(`[CommitGuard] Unstaged plaintext SOPS files: ${plaintext.map((uri) => uri.fsPath).join(', ')}`);
+            } catch (error) {
+                // E.g. in a repository without commits, which has no HEAD to reset to
+                logger.error(`[CommitGuard] Failed to unstage ${formatFileList(plaintext)}: ${getErrorMessage(error)}`);
+                vscode.window.showErrorMessage(
+                    `Failed to unstage ${formatFileList(plaintext)}: ${getErrorMessage(error)}. Unstage ${plaintext.length === 1 ? 'it' : 'them'} before committing.`
+                );
+            }
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `${unstaged ? 'Unstaged' : 'Staged'} ${formatFileList(plaintext)}: matches a SOPS creation rule but is not encrypted. ` +
+            'Encrypt before committing to keep plaintext secrets out of git.',
+            'Encrypt Now'
+        );
+        if (action === 'Encrypt Now') {
+            await this.encryptAndStage(plaintext);
+        }
+    }
+
+    /**
+     * Warn when the commit that was just made contains plaintext SOPS files
+     */
+    private async checkLastCommit(repository: Repository): Promise<void> {
+        if (this.settingsService.getPlaintextCommitGuard() === 'off') {
+            return;
+        }
+
+        const plaintext: vscode.Uri[] = [];
+        try {
+            const files = await this.gitRunner.getCommitFiles(repository.rootUri.fsPath, 'HEAD');
+            for (const uri of files.map((file) => vscode.Uri.file(file)).filter((uri) => this.isGuarded(uri))) {
+                // Only the committed content matters here, not the editor state
+                const committed = await this.gitRunner.getFileAtRef(uri.fsPath, 'HEAD');
+                if (committed !== null && !this.sopsDetector.isContentEncrypted(committed)) {
+                    plaintext.push(uri);
+                }
+            }
+        } catch (error) {
+            logger.error(`[CommitGuard] Failed to check last commit: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        if (plaintext.length === 0) {
+            return;
+        }
+
+        logger.info(`[CommitGuard] Last commit contains plaintext SOPS files: ${plaintext.map((uri) => uri.fsPath).join(', ')}`);
+        const action = await vscode.window.showErrorMessage(
+            `The last commit contains unencrypted SOPS files: ${formatFileList(plaintext)}. Undo it before pushing.`,
+            'Undo Last Commit',
+            'Encrypt Now'
+        );
+        if (action === 'Undo Last Commit') {
+            await vscode.commands.executeCommand('git.undoCommit');
+        } else if (action === 'Encrypt Now') {
+            await this.encryptAndStage(plaintext);
+        }
+    }
+
+    /**
+     * Encrypt files with the encrypt command and stage the encrypted result
+     */
+    private async encryptAndStage(uris: vscode.Uri[]): Promise<void> {
+        for (const uri of uris) {
+            await vscode.commands.executeCommand('sopsie.encrypt', uri);
+            if (!await this.sopsDetector.isEncrypted(uri)) {
+                continue;
+            }
+            try {
+                await this.gitRunner.stageFile(uri.fsPath);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to stage ${path.basename(uri.fsPath)}: ${getErrorMessage(error)}`);
+            }
+        }
+    }
+
+    dispose(): void {
+        this.checkTimers.forEach((timer) => clearTimeout(timer));
+        this.checkTimers.clear();
+        this.repositoryDisposables.forEach((disposable) => disposable.dispose());
+        this.repositoryDisposables.clear();
+        this.warnedFiles.clear();
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function formatFileList(uris: vscode.Uri[]): string {
+    return uris.map((uri) => path.basename(uri.fsPath)).join(', ');
+}
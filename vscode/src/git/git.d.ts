@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Subset of the API exported by VS Code's built-in Git extension (vscode.git),
+ *  from extensions/git/src/api/git.d.ts in microsoft/vscode (MIT License).
+ *  Only the members SOPSie uses are declared.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Event, Uri } from 'vscode';
+
+export interface Change {
+    readonly uri: Uri;
+    readonly originalUri: Uri;
+    readonly renameUri: Uri | undefined;
+}
+
+export interface RepositoryState {
+    readonly indexChanges: Change[];
+    readonly onDidChange: Event<void>;
+}
+
+export interface Repository {
+    readonly rootUri: Uri;
+    readonly state: RepositoryState;
+    /** Not available in older VS Code versions */
+    readonly onDidCommit?: Event<void>;
+
+    /** Unstage the given paths (`git reset -- <paths>`) */
+    revert(paths: string[]): Promise<void>;
+}
+
+export type APIState = 'uninitialized' | 'initialized';
+
+export interface API {
+    readonly state: APIState;
+    readonly onDidChangeState: Event<APIState>;
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: Event<Repository>;
+    readonly onDidCloseRepository: Event<Repository>;
+}
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    readonly onDidChangeEnablement: Event<boolean>;
+
+    /**
+     * Throws when the Git extension is disabled (git.enabled = false)
+     */
+    getAPI(version: 1): API;
+}
@@ -0,0 +1,256 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { createTempPath, removeTempFile } from '../utils/tempFileUtils';
+
+/**
+ * Timeout for git commands in ms
+ */
+const GIT_TIMEOUT = 15000;
+
+/**
+ * Maximum size of git output we accept (blobs of secret files are small)
+ */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Field and record separators for `git log --format`
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * A commit that touched a file
+ */
+export interface GitCommit {
+    hash: string;
+    shortHash: string;
+    author: string;
+    /** Author date in ISO 8601 format */
+    date: string;
+    subject: string;
+}
+
+// Start of a git conflict marker line (including the diff3 base marker)
+const CONFLICT_MARKER_REGEX = /^(<{7}|\|{7}|={7}|>{7})(\s|$)/m;
+
+/**
+ * Check whether content contains git merge conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+    return CONFLICT_MARKER_REGEX.test(content);
+}
+
+/**
+ * Result of a three-way merge of file contents
+ */
+export interface MergeResult {
+    content: string;
+    /** Number of conflicting hunks left as conflict markers */
+    conflicts: number;
+}
+
+/**
+ * Labels written next to conflict markers for each side of a merge
+ */
+export interface MergeLabels {
+    ours: string;
+    base: string;
+    theirs: string;
+}
+
+/**
+ * Shorten full commit hashes in a revision for display, e.g. "<hash>^" -> "1a2b3c4^"
+ */
+export function formatRef(ref: string): string {
+    return ref.replace(/^([0-9a-f]{7})[0-9a-f]{33}/i, '$1');
+}
+
+/**
+ * Wrapper for the git CLI operations needed to read SOPS files from history
+ */
+export class GitRunner {
+    /**
+     * Get the root of the repository containing a file, or null if it is not in a repository
+     */
+    async getRepositoryRoot(filePath: string): Promise<string | null> {
+        try {
+            const root = await this.runGit(['rev-parse', '--show-toplevel'], path.dirname(filePath));
+            return root.trim() || null;
+        } catch (error) {
+            logger.debug(`GitRunner: ${filePath} is not in a git repository: ${getErrorMessage(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Read a file's content at a revision.
+     * `ref` may be a commit-ish or an index stage such as ":1".
+     * Returns null when the file does not exist at that revision.
+     */
+    async getFileAtRef(filePath: string, ref: string): Promise<string | null> {
+        const repoRoot = await this.getRepositoryRoot(filePath);
+        if (!repoRoot) {
+            return null;
+        }
+
+        const relativePath = this.toGitPath(repoRoot, filePath);
+        // Yields "<commit>:<path>" for commits and ":<n>:<path>" for index stages
+        const object = `${ref}:${relativePath}`;
+
+        try {
+            return await this.runGit(['cat-file', '-p', object], repoRoot);
+        } catch (error) {
+            logger.debug(`GitRunner: ${relativePath} not found at ${ref}: ${getErrorMessage(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * List the commits that touched a file, newest first
+     */
+    async getFileHistory(filePath: string, maxCount = 50): Promise<GitCommit[]> {
+        const repoRoot = await this.getRepositoryRoot(filePath);
+        if (!repoRoot) {
+            return [];
+        }
+
+        const format = ['%H', '%h', '%an', '%aI', '%s'].join(FIELD_SEPARATOR) + RECORD_SEPARATOR;
+        const output = await this.runGit(
+            ['log', `-n${maxCount}`, `--format=${format}`, '--', this.toGitPath(repoRoot, filePath)],
+            repoRoot
+        );
+
+        return output
+            .split(RECORD_SEPARATOR)
+            .map((record) => record.trim())
+            .filter((record) => record !== '')
+            .map((record) => {
+                const [hash, shortHash, author, date, subject] = record.split(FIELD_SEPARATOR);
+                return { hash, shortHash, author, date, subject };
+            });
+    }
+
+    /**
+     * Check whether a file has unmerged entries in the index (an unresolved merge conflict)
+     */
+    async isConflicted(filePath: string): Promise<boolean> {
+        const repoRoot = await this.getRepositoryRoot(filePath);
+        if (!repoRoot) {
+            return false;
+        }
+
+        const output = await this.runGit(['ls-files', '--unmerged', '--', this.toGitPath(repoRoot, filePath)], repoRoot);
+        return output.trim() !== '';
+    }
+
+    /**
+     * Three-way merge file contents with `git merge-file`.
+     * Contents are written to temp files next to filePath because git merge-file
+     * only reads from disk; they are removed as soon as the merge finishes.
+     */
+    async mergeContent(
+        filePath: string,
+        ours: string,
+        base: string,
+        theirs: string,
+        labels: MergeLabels
+    ): Promise<MergeResult> {
+        const dir = path.dirname(filePath);
+        const ext = path.extname(filePath);
+        const tempPaths = [createTempPath(dir, ext), createTempPath(dir, ext), createTempPath(dir, ext)];
+
+        try {
+            [ours, base, theirs].forEach((content, index) => {
+                fs.writeFileSync(tempPaths[index], content, { encoding: 'utf8', mode: 0o600 });
+            });
+
+            return await new Promise<MergeResult>((resolve, reject) => {
+                execFile(
+                    'git',
+                    [
+                        'merge-file', '--stdout',
+                        '-L', labels.ours, '-L', labels.base, '-L', labels.theirs,
+                        ...tempPaths
+                    ],
+                    { cwd: dir, timeout: GIT_TIMEOUT, maxBuffer: GIT_MAX_BUFFER, encoding: 'utf8' },
+                    (error, stdout, stderr) => {
+                        // merge-file exits with the number of conflicts; negative (>127) means failure
+                        const code = typeof error?.code === 'number' ? error.code : error ? -1 : 0;
+                        if (code < 0 || code > 127) {
+                            reject(new Error(stderr.trim() || error?.message || 'git merge-file failed'));
+                            return;
+                        }
+                        resolve({ content: stdout, conflicts: code });
+                    }
+                );
+            });
+        } finally {
+            tempPaths.forEach(removeTempFile);
+        }
+    }
+
+    /**
+     * List the files added or modified by a commit, as absolute paths
+     */
+    async getCommitFiles(repoRoot: string, ref: string): Promise<string[]> {
+        // --root lists the files of the initial commit too
+        const output = await this.runGit(
+            ['diff-tree', '--no-commit-id', '--name-only', '-r', '-z', '--root', '--diff-filter=d', ref],
+            repoRoot
+        );
+        return output
+            .split('\0')
+            .filter((file) => file !== '')
+            .map((file) => path.join(repoRoot, file));
+    }
+
+    /**
+     * Get the hooks directory of the repository containing a directory (honors core.hooksPath),
+     * or null if it is not in a repository
+     */
+    async getHooksDirectory(directory: string): Promise<string | null> {
+        try {
+            const hooksPath = await this.runGit(['rev-parse', '--git-path', 'hooks'], directory);
+            return path.resolve(directory, hooksPath.trim());
+        } catch (error) {
+            logger.debug(`GitRunner: ${directory} is not in a git repository: ${getErrorMessage(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Stage a file, marking a merge conflict as resolved
+     */
+    async stageFile(filePath: string): Promise<void> {
+        const repoRoot = await this.getRepositoryRoot(filePath);
+        if (!repoRoot) {
+            throw new Error('File is not in a git repository');
+        }
+        await this.runGit(['add', '--', this.toGitPath(repoRoot, filePath)], repoRoot);
+    }
+
+    /**
+     * Convert an absolute path to the forward-slash path git uses inside a repository
+     */
+    private toGitPath(repoRoot: string, filePath: string): string {
+        return path.relative(repoRoot, filePath).split(path.sep).join('/');
+    }
+
+    private runGit(args: string[], cwd: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile(
+                'git',
+                args,
+                { cwd, timeout: GIT_TIMEOUT, maxBuffer: GIT_MAX_BUFFER, encoding: 'utf8' },
+                (error, stdout, stderr) => {
+                    if (error) {
+                        reject(new Error(stderr.trim() || error.message));
+                        return;
+                    }
+                    resolve(stdout);
+                }
+            );
+        });
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Git pre-commit hook: refuses commits that stage SOPS files in plaintext.
+ * Bundled on its own (dist/preCommitHook.js) and copied into the repository's hooks
+ * directory by "SOPS: Install Git Pre-Commit Hook", so it must not import vscode.
+ * Uses the same config lookup (sopsie.configPath, SOPS_CONFIG or the nearest .sops.yaml)
+ * and rule matching as the extension.
+ */
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseConfig } from '../config/configParser';
+import { RulesMatcher, isCatchAllRule, isIgnoredFile, isStructuredFile } from '../config/rulesMatcher';
+import { isSopsEncryptedContent } from '../sops/sopsContent';
+
+const CONFIG_NAMES = ['.sops.yaml', '.sops.yml'];
+// Written next to this script by the install command when the extension uses an explicit config
+const INSTALLED_CONFIG_NAME = 'sopsie-pre-commit.json';
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+function git(args: string[], cwd: string): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: GIT_MAX_BUFFER });
+}
+
+/**
+ * Find and parse the .sops.yaml closest to a file, up to the filesystem root like sops.
+ * Configs that fail to parse are reported once and treated as missing.
+ */
+function findNearestMatcher(filePath: string, matchers: Map<string, RulesMatcher | null>): RulesMatcher | null {
+    let currentDir = path.dirname(filePath);
+    for (;;) {
+        for (const configName of CONFIG_NAMES) {
+            const configPath = path.join(currentDir, configName);
+            if (!matchers.has(configPath)) {
+                matchers.set(configPath, loadMatcher(configPath));
+            }
+            const matcher = matchers.get(configPath);
+            if (matcher) {
+                return matcher;
+            }
+        }
+
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) {
+            break;
+        }
+        currentDir = parentDir;
+    }
+    return null;
+}
+
+function loadMatcher(configPath: string): RulesMatcher | null {
+    if (!fs.existsSync(configPath)) {
+        return null;
+    }
+    try {
+        const config = parseConfig(fs.readFileSync(configPath, 'utf8'));
+        return new RulesMatcher(config, path.dirname(configPath));
+    } catch (error) {
+        console.error(`SOPSie: Skipping invalid ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+    }
+}
+
+/**
+ * Read the config path the extension used when the hook was installed (sopsie.configPath or SOPS_CONFIG)
+ */
+function readInstalledConfigPath(): string | undefined {
+    try {
+        const installed = JSON.parse(fs.readFileSync(path.join(__dirname, INSTALLED_CONFIG_NAME), 'utf8')) as { configPath?: unknown };
+        return typeof installed.configPath === 'string' && installed.configPath !== '' ? installed.configPath : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function main(): number {
+    const repoRoot = path.resolve(git(['rev-parse', '--show-toplevel'], process.cwd()).trim());
+    const staged = git(['diff', '--cached', '--name-only', '-z', '--diff-filter=ACMR'], repoRoot)
+        .split('\0')
+        .filter((file) => file !== '');
+
+    // Like sops, an explicit config replaces the search for the nearest .sops.yaml.
+    // The extension's config wins over SOPS_CONFIG, like --config does.
+    const envConfig = process.env.SOPS_CONFIG?.trim();
+    const explicitConfig = readInstalledConfigPath() ?? (envConfig ? path.resolve(repoRoot, envConfig) : undefined);
+    const explicitMatcher = explicitConfig ? loadMatcher(explicitConfig) : undefined;
+
+    const matchers = new Map<string, RulesMatcher | null>();
+    const plaintextFiles = staged.filter((file) => {
+        const filePath = path.join(repoRoot, file);
+        // Like the commit guard, only structured files matched by a path or filename rule count
+        if (isIgnoredFile(filePath) || !isStructuredFile(filePath)) {
+            return false;
+        }
+
+        const matcher = explicitMatcher !== undefined ? explicitMatcher : findNearestMatcher(filePath, matchers);
+        const rule = matcher?.findMatchingRuleForPath(filePath);
+        if (!rule || isCatchAllRule(rule)) {
+            return false;
+        }
+
+        // Check the staged content, not the working tree
+        return !isSopsEncryptedContent(git(['cat-file', '-p', `:${file}`], repoRoot));
+    });
+
+    if (plaintextFiles.length === 0) {
+        return 0;
+    }
+
+    console.error('SOPSie: These files match a .sops.yaml creation rule but are staged unencrypted:');
+    plaintextFiles.forEach((file) => console.error(`  ${file}`));
+    console.error('Encrypt them (e.g. "SOPS: Encrypt File" or `sops --encrypt --in-place <file>`) and stage them again.');
+    console.error('To commit anyway, use `git commit --no-verify`.');
+    return 1;
+}
+
+try {
+    process.exitCode = main();
+} catch (error) {
+    // Never block commits because the check itself failed
+    console.error(`SOPSie: Pre-commit check failed: ${error instanceof Error ? error.message : String(error)}`);
+}
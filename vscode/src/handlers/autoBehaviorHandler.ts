@@ -122,7 +122,8 @@ export class AutoBehaviorHandler {
         const content = doc.getText();
 
         try {
-            const encrypted = await this.sopsRunner.encryptContent(
+            // Reuse the data key and unchanged ciphertext from the file on disk
+            const encrypted = await this.sopsRunner.editContent(
                 content,
                 doc.uri.fsPath
             );
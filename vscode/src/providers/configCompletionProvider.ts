@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import {
+    CONFIG_KEY_ALIASES,
+    CREATION_RULE_FIELDS,
+    CREATION_RULE_SNIPPETS,
+    ConfigField,
+    DESTINATION_RULE_FIELDS,
+    KEY_GROUP_FIELDS,
+    STORE_FIELDS,
+    STORE_OPTION_FIELDS,
+    TOP_LEVEL_FIELDS
+} from '../config/configSchema';
+import { getRuleRecipientGroups } from '../config/ruleRecipients';
+import { getAllRecipients, parseSopsMetadata } from '../sops/sopsMetadata';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+// A key at the start of a line, optionally as a sequence item: "  - key: value"
+const KEY_LINE_REGEX = /^(\s*)(?:(-)\s+)?([\w-]+)\s*:(.*)$/;
+// A sequence item without a key: "  - value"
+const DASH_LINE_REGEX = /^(\s*)-(\s|$)/;
+
+/**
+ * Position of the cursor in a .sops.yaml document, as the chain of parent keys
+ * ("-" for a sequence item), e.g. ['creation_rules', '-', 'key_groups', '-']
+ */
+type YamlPath = string[];
+
+/**
+ * Completions and hovers for .sops.yaml files: key names with documentation, snippets for
+ * common rule shapes, and age recipients already used elsewhere in the workspace.
+ */
+export class ConfigCompletionProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private recipientCache: Promise<string[]> | undefined;
+
+    constructor(private configManager: ConfigManager) {
+        this.disposables.push(
+            configManager.onDidChangeConfig(() => this.clearRecipientCache())
+        );
+    }
+
+    /**
+     * Forget collected age recipients, e.g. after an encrypted file changed
+     */
+    clearRecipientCache(): void {
+        this.recipientCache = undefined;
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[]> {
+        const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+
+        // Value of an age field, either inline or as a list item below it
+        const inlineKey = /^\s*(?:-\s+)?([\w-]+)\s*:\s*(?:[^#]*,\s*)?[\w-]*$/.exec(linePrefix)?.[1];
+        const path = getYamlPath(document, position.line);
+        // The path of a "- " line ends with its own sequence item
+        const listKey = /^\s*-\s+[\w-]*$/.test(linePrefix) ? path[path.length - 2] : undefined;
+        if (inlineKey === 'age' || listKey === 'age') {
+            return this.getRecipientCompletions(document);
+        }
+        if (inlineKey !== undefined) {
+            return [];
+        }
+
+        // Only complete keys where a key can start
+        if (!/^\s*(-\s+)?[\w-]*$/.test(linePrefix)) {
+            return [];
+        }
+        const isItemStart = /^\s*-\s+[\w-]*$/.test(linePrefix);
+
+        const fields = getFieldsForPath(path);
+        const items = (fields ?? []).map((field) => createFieldItem(field));
+
+        // A new rule can start on an empty line of creation_rules or right after its "- "
+        if (isRulesPath(path) || (isItemStart && isRulesPath(path.slice(0, -1)))) {
+            items.push(...CREATION_RULE_SNIPPETS.map((snippet) => {
+                const item = new vscode.CompletionItem(snippet.label, vscode.CompletionItemKind.Snippet);
+                item.insertText = new vscode.SnippetString(isRulesPath(path) && !isItemStart ? `- ${snippet.body}` : snippet.body);
+                item.detail = 'SOPS creation rule';
+                item.documentation = snippet.description;
+                return item;
+            }));
+        }
+        return items;
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const line = document.lineAt(position.line).text;
+        const match = KEY_LINE_REGEX.exec(line);
+        if (!match) {
+            return undefined;
+        }
+
+        const keyStart = line.indexOf(match[3], match[1].length);
+        const range = new vscode.Range(position.line, keyStart, position.line, keyStart + match[3].length);
+        if (!range.contains(position)) {
+            return undefined;
+        }
+
+        const key = match[3];
+        const fields = getFieldsForPath(getYamlPath(document, position.line));
+        const field = fields?.find((candidate) => candidate.name === key);
+        if (field) {
+            return new vscode.Hover(new vscode.MarkdownString(`**${field.name}**\n\n${field.description}`), range);
+        }
+
+        const alias = CONFIG_KEY_ALIASES[key];
+        if (alias && fields?.some((candidate) => candidate.name === alias)) {
+            return new vscode.Hover(new vscode.MarkdownString(`**${key}** is not read by sops. Use \`${alias}\`.`), range);
+        }
+        return undefined;
+    }
+
+    private async getRecipientCompletions(document: vscode.TextDocument): Promise<vscode.CompletionItem[]> {
+        this.recipientCache ??= this.collectRecipients();
+        const recipients = await this.recipientCache;
+
+        // Keys already in the open document are still offered, but sorted last
+        const text = document.getText();
+        return recipients.map((recipient) => {
+            const item = new vscode.CompletionItem(recipient, vscode.CompletionItemKind.Value);
+            item.detail = 'age recipient used in this workspace';
+            item.sortText = `${text.includes(recipient) ? '1' : '0'}${recipient}`;
+            return item;
+        });
+    }
+
+    /**
+     * Collect age recipients from every loaded config and every rule-matched encrypted file
+     */
+    private async collectRecipients(): Promise<string[]> {
+        const recipients = new Set<string>();
+
+        for (const loadedConfig of this.configManager.getLoadedConfigs()) {
+            for (const rule of loadedConfig.config.creation_rules) {
+                getRuleRecipientGroups(rule).flat()
+                    .filter((recipient) => recipient.type === 'age')
+                    .forEach((recipient) => recipients.add(recipient.id));
+            }
+        }
+
+        try {
+            const matches = await this.configManager.findMatchingFiles();
+            await Promise.all(matches.map(async ({ uri }) => {
+                try {
+                    const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+                    const metadata = parseSopsMetadata(content, uri.fsPath);
+                    if (metadata) {
+                        getAllRecipients(metadata)
+                            .filter((recipient) => recipient.type === 'age')
+                            .forEach((recipient) => recipients.add(recipient.id));
+                    }
+                } catch {
+                    // Unreadable files have no recipients to offer
+                }
+            }));
+        } catch (error) {
+            logger.debug(`ConfigCompletionProvider: Failed to scan encrypted files: ${getErrorMessage(error)}`);
+        }
+
+        return Array.from(recipients).sort();
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function createFieldItem(field: ConfigField): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Property);
+    item.insertText = new vscode.SnippetString(`${field.name}:${field.valueSnippet ?? ' $0'}`);
+    item.documentation = new vscode.MarkdownString(field.description);
+    item.detail = 'SOPS';
+    return item;
+}
+
+function isRulesPath(path: YamlPath): boolean {
+    return path.length === 1 && path[0] === 'creation_rules';
+}
+
+function getFieldsForPath(path: YamlPath): ConfigField[] | undefined {
+    const key = path.join('/');
+    if (key === '') {
+        return TOP_LEVEL_FIELDS;
+    }
+    if (key === 'creation_rules/-' || key === 'destination_rules/-/recreation_rule') {
+        return CREATION_RULE_FIELDS;
+    }
+    if (key.endsWith('/key_groups/-') || key.endsWith('/merge/-')) {
+        return KEY_GROUP_FIELDS;
+    }
+    if (key === 'destination_rules/-') {
+        return DESTINATION_RULE_FIELDS;
+    }
+    if (key === 'stores') {
+        return STORE_FIELDS;
+    }
+    if (path.length === 2 && path[0] === 'stores') {
+        return STORE_OPTION_FIELDS;
+    }
+    return undefined;
+}
+
+/**
+ * Work out the parent keys of a line from indentation alone, so it also works
+ * while the document is being typed and does not parse.
+ */
+function getYamlPath(document: vscode.TextDocument, lineNumber: number): YamlPath {
+    const path: YamlPath = [];
+    const current = document.lineAt(lineNumber).text;
+
+    // Indentation a key on this line has (or would have)
+    let limit = current.search(/\S/);
+    if (limit === -1) {
+        limit = current.length;
+    }
+    const currentDash = DASH_LINE_REGEX.exec(current);
+    if (currentDash) {
+        path.push('-');
+        limit = currentDash[1].length;
+    }
+
+    for (let i = lineNumber - 1; i >= 0 && limit > 0; i--) {
+        const text = document.lineAt(i).text;
+        if (/^\s*(#|$)/.test(text)) {
+            continue;
+        }
+
+        const keyMatch = KEY_LINE_REGEX.exec(text);
+        const dashMatch = DASH_LINE_REGEX.exec(text);
+        const dashIndent = dashMatch ? dashMatch[1].length : -1;
+        const keyIndent = keyMatch ? text.indexOf(keyMatch[3], keyMatch[1].length) : text.search(/\S/);
+
+        if (keyIndent < limit && keyMatch) {
+            path.push(keyMatch[3]);
+            limit = keyIndent;
+        }
+        if (dashIndent !== -1 && dashIndent < limit) {
+            // A sibling key (or the parent key) inside the same sequence item
+            path.push('-');
+            limit = dashIndent;
+        }
+    }
+
+    return path.reverse();
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { ConfigProblem, validateConfig } from '../config/configValidator';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+/**
+ * Reports problems in .sops.yaml files (and configs set with sopsie.configPath or SOPS_CONFIG) as diagnostics: unknown keys, invalid regexes,
+ * malformed recipients and ARNs, impossible shamir thresholds and unreachable rules.
+ * Open configs are validated as they are edited, the rest from disk.
+ */
+export class ConfigDiagnosticsProvider implements vscode.Disposable {
+    private diagnostics = vscode.languages.createDiagnosticCollection('sopsie-config');
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private configManager: ConfigManager) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument((doc) => this.updateDocument(doc)),
+            vscode.workspace.onDidChangeTextDocument((e) => this.updateDocument(e.document)),
+            // Closed configs are re-read when they change or are deleted on disk
+            configManager.onDidChangeConfig((uri) => this.updateFile(uri))
+        );
+    }
+
+    /**
+     * Validate every .sops.yaml in the workspace and the explicitly set configs
+     */
+    async scanWorkspace(): Promise<void> {
+        this.diagnostics.clear();
+        try {
+            const found = await vscode.workspace.findFiles('**/.sops.{yaml,yml}', '**/node_modules/**');
+            const configFiles = [...found, ...this.configManager.getExplicitConfigUris()
+                .filter((uri) => !found.some((foundUri) => foundUri.toString() === uri.toString()))];
+            await Promise.all(configFiles.map((uri) => this.updateFile(uri)));
+            logger.debug(`ConfigDiagnosticsProvider: Validated ${configFiles.length} config files`);
+        } catch (error) {
+            logger.error(`ConfigDiagnosticsProvider: Workspace scan failed: ${getErrorMessage(error)}`);
+        }
+    }
+
+    private updateDocument(document: vscode.TextDocument): void {
+        if (this.configManager.isConfigFile(document.uri)) {
+            this.setProblems(document.uri, document.getText());
+        }
+    }
+
+    private async updateFile(uri: vscode.Uri): Promise<void> {
+        // E.g. a file that was the configPath until the setting changed
+        if (!this.configManager.isConfigFile(uri)) {
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        const openDocument = vscode.workspace.textDocuments.find(
+            (doc) => doc.uri.toString() === uri.toString()
+        );
+        if (openDocument) {
+            this.updateDocument(openDocument);
+            return;
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            this.setProblems(uri, Buffer.from(content).toString('utf-8'));
+        } catch {
+            // Deleted or unreadable
+            this.diagnostics.delete(uri);
+        }
+    }
+
+    private setProblems(uri: vscode.Uri, content: string): void {
+        const problems = validateConfig(content);
+        this.diagnostics.set(uri, problems.map((problem) => toDiagnostic(problem, content)));
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this.diagnostics.dispose();
+    }
+}
+
+function toDiagnostic(problem: ConfigProblem, content: string): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(offsetToPosition(content, problem.start), offsetToPosition(content, problem.end)),
+        problem.message,
+        problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'SOPSie';
+    return diagnostic;
+}
+
+function offsetToPosition(content: string, offset: number): vscode.Position {
+    const before = content.slice(0, offset);
+    const line = before.split('\n').length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
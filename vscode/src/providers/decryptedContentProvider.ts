@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { SopsRunner } from '../sops/sopsRunner';
+import { hasConflictMarkers } from '../git/gitRunner';
 import { SOPS_DECRYPTED_SCHEME } from '../types';
 import { logger } from '../services/loggerService';
 import { getErrorMessage } from '../utils/errorUtils';
@@ -9,17 +11,34 @@ import { getErrorMessage } from '../utils/errorUtils';
  * Provides decrypted content for virtual documents.
  * Implements VS Code's TextDocumentContentProvider for read-only decrypted previews.
  * Uses an LRU cache to avoid repeated decryption of the same files.
+ * Watches the source file of every open preview and re-decrypts it when the file
+ * changes on disk (git pull, branch switch, external sops edits).
  */
 export class DecryptedContentProvider implements vscode.TextDocumentContentProvider {
     private static readonly MAX_CACHE_SIZE = 20;
+    private static readonly REFRESH_DEBOUNCE_MS = 300;
 
     private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
     private cache = new Map<string, string>();
+    private disposables: vscode.Disposable[] = [];
+    /** File watchers for the source of each open preview, keyed by original path */
+    private sourceWatchers = new Map<string, vscode.Disposable>();
+    private refreshTimers = new Map<string, NodeJS.Timeout>();
+    /** Original paths being re-decrypted after a change, to report failures */
+    private pendingRefreshes = new Set<string>();
 
     /** Event fired when document content changes (triggers VS Code to re-fetch content) */
     readonly onDidChange = this._onDidChange.event;
 
-    constructor(private sopsRunner: SopsRunner) {}
+    constructor(private sopsRunner: SopsRunner) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument((doc) => this.watchSource(doc)),
+            vscode.workspace.onDidCloseTextDocument((doc) => this.unwatchSource(doc))
+        );
+
+        // Previews restored with the window are already open
+        vscode.workspace.textDocuments.forEach((doc) => this.watchSource(doc));
+    }
 
     /**
      * Provide content for a virtual decrypted document.
@@ -48,12 +67,32 @@ export class DecryptedContentProvider implements vscode.TextDocumentContentProvi
             // Evict oldest entry if cache is full
             this.evictOldestIfNeeded();
             this.cache.set(originalPath, contentWithHeader);
+            this.pendingRefreshes.delete(originalPath);
             logger.debug(`DecryptedContentProvider: Cached decrypted content for ${originalPath}`);
             return contentWithHeader;
         } catch (error) {
             logger.error(`DecryptedContentProvider: Failed to decrypt ${originalPath}: ${getErrorMessage(error)}`);
+            if (this.pendingRefreshes.delete(originalPath)) {
+                vscode.window.showWarningMessage(
+                    `${path.basename(originalPath)} changed on disk and its decrypted preview could not be refreshed: ${getErrorMessage(error)}`
+                );
+            }
             // Return error message as content so user sees what went wrong
-            return `# Failed to decrypt file\n# Error: ${getErrorMessage(error)}\n#\n# Original file: ${originalPath}`;
+            const conflictHint = await this.hasConflictMarkers(originalPath)
+                ? '\n#\n# The file contains git merge conflict markers.\n# Run "SOPS: Resolve SOPS Conflict" to merge the decrypted versions.'
+                : '';
+            return `# Failed to decrypt file\n# Error: ${getErrorMessage(error)}${conflictHint}\n#\n# Original file: ${originalPath}`;
+        }
+    }
+
+    /**
+     * Check whether a file on disk is left with git merge conflict markers
+     */
+    private async hasConflictMarkers(filePath: string): Promise<boolean> {
+        try {
+            return hasConflictMarkers(await fs.promises.readFile(filePath, 'utf8'));
+        } catch {
+            return false;
         }
     }
 
@@ -99,20 +138,90 @@ export class DecryptedContentProvider implements vscode.TextDocumentContentProvi
 
     /**
      * Refresh a specific document by clearing cache and firing change event.
-     * Only fires change event if the path was actually cached (has an open preview).
+     * The change event is debounced and only fired if a preview of the file is open.
      */
     refresh(originalPath: string): void {
-        const wasCached = this.cache.delete(originalPath);
-        if (wasCached) {
-            logger.debug(`DecryptedContentProvider: Refreshing cached content for ${originalPath}`);
-            const filename = path.basename(originalPath);
-            const uri = vscode.Uri.from({
-                scheme: SOPS_DECRYPTED_SCHEME,
-                path: `${filename} (SOPS Preview)`,
-                query: originalPath
-            });
-            this._onDidChange.fire(uri);
+        if (this.cache.delete(originalPath)) {
+            logger.debug(`DecryptedContentProvider: Invalidated cached content for ${originalPath}`);
         }
+
+        if (!this.sourceWatchers.has(originalPath)) {
+            return;
+        }
+
+        // Checkouts and sops edits can write the same file several times in a row
+        const existing = this.refreshTimers.get(originalPath);
+        if (existing) {
+            clearTimeout(existing);
+        }
+        this.refreshTimers.set(originalPath, setTimeout(() => {
+            this.refreshTimers.delete(originalPath);
+            this.cache.delete(originalPath);
+            this.pendingRefreshes.add(originalPath);
+            for (const doc of vscode.workspace.textDocuments) {
+                if (doc.uri.scheme === SOPS_DECRYPTED_SCHEME && DecryptedContentProvider.getOriginalPath(doc.uri) === originalPath) {
+                    logger.debug(`DecryptedContentProvider: Refreshing ${doc.uri.toString()}`);
+                    this._onDidChange.fire(doc.uri);
+                }
+            }
+        }, DecryptedContentProvider.REFRESH_DEBOUNCE_MS));
+    }
+
+    /**
+     * Start watching the source file of an opened preview
+     */
+    private watchSource(doc: vscode.TextDocument): void {
+        if (doc.uri.scheme !== SOPS_DECRYPTED_SCHEME) {
+            return;
+        }
+
+        const originalPath = DecryptedContentProvider.getOriginalPath(doc.uri);
+        if (this.sourceWatchers.has(originalPath)) {
+            return;
+        }
+
+        // A pattern relative to the file's folder also works outside the workspace
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(originalPath)), path.basename(originalPath))
+        );
+        const onSourceChanged = (): void => this.refresh(originalPath);
+        this.sourceWatchers.set(originalPath, vscode.Disposable.from(
+            watcher,
+            watcher.onDidChange(onSourceChanged),
+            // Atomic writes replace the file, deletes show the decryption error
+            watcher.onDidCreate(onSourceChanged),
+            watcher.onDidDelete(onSourceChanged)
+        ));
+        logger.debug(`DecryptedContentProvider: Watching ${originalPath}`);
+    }
+
+    /**
+     * Stop watching the source file once its preview is closed
+     */
+    private unwatchSource(doc: vscode.TextDocument): void {
+        if (doc.uri.scheme !== SOPS_DECRYPTED_SCHEME) {
+            return;
+        }
+
+        const originalPath = DecryptedContentProvider.getOriginalPath(doc.uri);
+        this.sourceWatchers.get(originalPath)?.dispose();
+        this.sourceWatchers.delete(originalPath);
+
+        const timer = this.refreshTimers.get(originalPath);
+        if (timer) {
+            clearTimeout(timer);
+            this.refreshTimers.delete(originalPath);
+        }
+        this.pendingRefreshes.delete(originalPath);
+        logger.debug(`DecryptedContentProvider: Stopped watching ${originalPath}`);
+    }
+
+    /**
+     * Drop all cached plaintext. Open previews re-decrypt on their next read.
+     */
+    clearCache(): void {
+        logger.debug(`DecryptedContentProvider: Clearing ${this.cache.size} cached entries`);
+        this.cache.clear();
     }
 
     /**
@@ -159,6 +268,12 @@ export class DecryptedContentProvider implements vscode.TextDocumentContentProvi
     }
 
     dispose(): void {
+        this.refreshTimers.forEach((timer) => clearTimeout(timer));
+        this.refreshTimers.clear();
+        this.sourceWatchers.forEach((watcher) => watcher.dispose());
+        this.sourceWatchers.clear();
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
         this._onDidChange.dispose();
         this.cache.clear();
     }
@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SopsRunner } from '../sops/sopsRunner';
+import { hasConflictMarkers } from '../git/gitRunner';
+import { SOPS_EDIT_SCHEME } from '../types';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+interface EditEntry {
+    content: Uint8Array;
+    originalPath: string;
+    ctime: number;
+    mtime: number;
+    /** Original holds git conflict markers, so saves encrypt from scratch with the creation rule */
+    resolvesConflict: boolean;
+}
+
+/**
+ * Options for creating an edit document
+ */
+export interface EditDocumentOptions {
+    /** The document holds the merge result of a conflicted SOPS file */
+    resolvesConflict?: boolean;
+}
+
+/**
+ * In-memory file system backing edit-in-place documents.
+ * Decrypted content lives only in memory under the sops-edit:// scheme and is
+ * encrypted back to the original file whenever VS Code writes the document.
+ */
+export class DecryptedFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+    private entries = new Map<string, EditEntry>();
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+
+    /** Event fired when an edit document's content changes */
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private sopsRunner: SopsRunner) {
+        // Drop decrypted content from memory once no tab shows it any more. Documents also
+        // close and reopen while their tab stays open (e.g. when the language changes),
+        // and a save after that must still find the content.
+        this.disposables.push(
+            vscode.window.tabGroups.onDidChangeTabs((event) => {
+                event.closed.forEach((tab) => getTabUris(tab).forEach((uri) => this.releaseIfUnused(uri)));
+            }),
+            vscode.workspace.onDidCloseTextDocument((doc) => {
+                this.releaseIfUnused(doc.uri);
+            })
+        );
+    }
+
+    /**
+     * Register decrypted content for editing and return its sops-edit:// URI
+     */
+    createEditDocument(
+        originalUri: vscode.Uri,
+        decryptedContent: string,
+        options: EditDocumentOptions = {}
+    ): vscode.Uri {
+        const editUri = DecryptedFileSystemProvider.createEditUri(originalUri);
+        const now = Date.now();
+
+        this.entries.set(editUri.toString(), {
+            content: Buffer.from(decryptedContent, 'utf8'),
+            originalPath: originalUri.fsPath,
+            ctime: now,
+            mtime: now,
+            resolvesConflict: options.resolvesConflict ?? false
+        });
+        logger.debug(`Created edit document: ${editUri.toString()} -> ${originalUri.fsPath}`);
+
+        // Refresh the document if an edit tab for this file is already open
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: editUri }]);
+
+        return editUri;
+    }
+
+    watch(): vscode.Disposable {
+        // Content only changes through this provider, so there is nothing to watch
+        return new vscode.Disposable(() => {});
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const entry = this.getEntry(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: entry.ctime,
+            mtime: entry.mtime,
+            size: entry.content.byteLength
+        };
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return this.getEntry(uri).content;
+    }
+
+    /**
+     * Encrypt the written content and save it to the original file.
+     * Throwing keeps the document dirty so no edits are lost on failure.
+     */
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const entry = this.getEntry(uri);
+        const originalPath = entry.originalPath;
+        const text = Buffer.from(content).toString('utf8');
+
+        if (entry.resolvesConflict && hasConflictMarkers(text)) {
+            throw vscode.FileSystemError.NoPermissions(
+                'Resolve all conflict markers before saving'
+            );
+        }
+
+        try {
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Encrypting and saving to original file...',
+                    cancellable: false
+                },
+                async () => {
+                    // A conflicted original has no usable data key, so encrypt from scratch;
+                    // otherwise re-encrypt keeping ciphertext of unchanged values
+                    const encrypted = entry.resolvesConflict
+                        ? await this.sopsRunner.encryptContent(text, originalPath)
+                        : await this.sopsRunner.editContent(text, originalPath);
+
+                    // Write encrypted content to original file
+                    await fs.promises.writeFile(originalPath, encrypted, 'utf8');
+                }
+            );
+        } catch (error) {
+            logger.error(`Failed to encrypt: ${getErrorMessage(error)}`);
+            throw vscode.FileSystemError.Unavailable(
+                `Failed to encrypt and save: ${getErrorMessage(error)}`
+            );
+        }
+
+        entry.content = content;
+        entry.mtime = Date.now();
+        // The original is a regular encrypted file again
+        entry.resolvesConflict = false;
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+
+        vscode.window.showInformationMessage(
+            `Encrypted and saved to ${path.basename(originalPath)}`
+        );
+        logger.debug(`Encrypted edit document ${uri.toString()} -> ${originalPath}`);
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        throw vscode.FileSystemError.NoPermissions('Edit documents have no directories');
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions('Edit documents have no directories');
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    private getEntry(uri: vscode.Uri): EditEntry {
+        const entry = this.entries.get(uri.toString());
+        if (!entry) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return entry;
+    }
+
+    /**
+     * Forget the decrypted content of an edit document once neither a tab nor an open document uses it
+     * Note: EditorGroupTracker handles auto-collapse via DocumentWatcher
+     */
+    private releaseIfUnused(uri: vscode.Uri): void {
+        const key = uri.toString();
+        if (uri.scheme !== SOPS_EDIT_SCHEME || !this.entries.has(key)) {
+            return;
+        }
+
+        const inTab = vscode.window.tabGroups.all.some((group) =>
+            group.tabs.some((tab) => getTabUris(tab).some((tabUri) => tabUri.toString() === key))
+        );
+        const inDocument = vscode.workspace.textDocuments.some((doc) => doc.uri.toString() === key && !doc.isClosed);
+        if (inTab || inDocument) {
+            return;
+        }
+
+        this.entries.delete(key);
+        logger.debug(`Released edit document: ${key}`);
+    }
+
+    /**
+     * Get the original file path from an edit URI
+     */
+    static getOriginalPath(editUri: vscode.Uri): string {
+        // Original path is stored in the query parameter
+        return editUri.query;
+    }
+
+    /**
+     * Create an edit URI from an original file URI.
+     * The path keeps the original directory so two files sharing a basename never
+     * collide, and shows {name}.sops-edit{ext} in the tab title; the query stores the real path.
+     */
+    static createEditUri(originalUri: vscode.Uri): vscode.Uri {
+        const ext = path.posix.extname(originalUri.path);
+        const nameWithoutExt = path.posix.basename(originalUri.path, ext);
+        const dir = path.posix.dirname(originalUri.path);
+        return vscode.Uri.from({
+            scheme: SOPS_EDIT_SCHEME,
+            path: path.posix.join(dir, `${nameWithoutExt}.sops-edit${ext}`),
+            query: originalUri.fsPath
+        });
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this._onDidChangeFile.dispose();
+        this.entries.clear();
+    }
+}
+
+/**
+ * Get the documents a tab shows
+ */
+function getTabUris(tab: vscode.Tab): vscode.Uri[] {
+    if (tab.input instanceof vscode.TabInputText) {
+        return [tab.input.uri];
+    }
+    if (tab.input instanceof vscode.TabInputTextDiff) {
+        return [tab.input.original, tab.input.modified];
+    }
+    return [];
+}
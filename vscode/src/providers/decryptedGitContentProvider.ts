@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatRef, GitRunner } from '../git/gitRunner';
+import { SopsRunner } from '../sops/sopsRunner';
+import { SopsDetector } from '../sops/sopsDetector';
+import { SOPS_GIT_SCHEME } from '../types';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+/**
+ * What a sops-git URI points at: a file at a git revision, or in the working tree
+ */
+interface GitContentQuery {
+    path: string;
+    /** Commit-ish or index stage (":1"); undefined means the working tree */
+    ref?: string;
+}
+
+// Full commit hashes are immutable, so their decrypted content can be cached
+const COMMIT_HASH_REGEX = /^[0-9a-f]{40}$/i;
+
+/**
+ * Provides decrypted content of SOPS files from git history for diff views.
+ * Ciphertext changes wholesale on every encrypt, so diffs are shown on the
+ * decrypted content of each side instead.
+ */
+export class DecryptedGitContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private static readonly MAX_CACHE_SIZE = 20;
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    private cache = new Map<string, string>();
+
+    /** Event fired when document content changes (triggers VS Code to re-fetch content) */
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private gitRunner: GitRunner,
+        private sopsRunner: SopsRunner,
+        private sopsDetector: SopsDetector
+    ) {}
+
+    /**
+     * Provide decrypted content for a sops-git:// document
+     */
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = DecryptedGitContentProvider.parseUri(uri);
+        if (!query) {
+            return '';
+        }
+
+        const cacheKey = uri.toString();
+        const cached = this.cache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const label = query.ref ?? 'working tree';
+        logger.debug(`DecryptedGitContentProvider: Providing ${query.path} at ${label}`);
+
+        try {
+            const content = await this.decryptAtRef(query);
+            if (query.ref && COMMIT_HASH_REGEX.test(query.ref)) {
+                this.evictOldestIfNeeded();
+                this.cache.set(cacheKey, content);
+            }
+            return content;
+        } catch (error) {
+            logger.error(`DecryptedGitContentProvider: Failed to decrypt ${query.path} at ${label}: ${getErrorMessage(error)}`);
+            return `# Failed to decrypt file at ${label}\n# Error: ${getErrorMessage(error)}\n#\n# Original file: ${query.path}`;
+        }
+    }
+
+    /**
+     * Re-fetch open documents for a file whose working tree or index changed
+     */
+    refresh(filePath: string): void {
+        for (const doc of vscode.workspace.textDocuments) {
+            if (doc.uri.scheme !== SOPS_GIT_SCHEME) {
+                continue;
+            }
+            const query = DecryptedGitContentProvider.parseUri(doc.uri);
+            if (query?.path === filePath && !(query.ref && COMMIT_HASH_REGEX.test(query.ref))) {
+                logger.debug(`DecryptedGitContentProvider: Refreshing ${doc.uri.toString()}`);
+                this._onDidChange.fire(doc.uri);
+            }
+        }
+    }
+
+    /**
+     * Drop all cached plaintext revisions
+     */
+    clearCache(): void {
+        logger.debug(`DecryptedGitContentProvider: Clearing ${this.cache.size} cached revisions`);
+        this.cache.clear();
+    }
+
+    private async decryptAtRef(query: GitContentQuery): Promise<string> {
+        if (!query.ref) {
+            const content = await fs.promises.readFile(query.path, 'utf8');
+            return this.sopsDetector.isContentEncrypted(content)
+                ? this.sopsRunner.decrypt(query.path)
+                : content;
+        }
+
+        const content = await this.gitRunner.getFileAtRef(query.path, query.ref);
+        if (content === null) {
+            // File does not exist at this revision (added or deleted): diff against empty
+            return '';
+        }
+
+        // Files may have been committed before they were encrypted
+        return this.sopsDetector.isContentEncrypted(content)
+            ? this.sopsRunner.decryptContent(content, query.path)
+            : content;
+    }
+
+    private evictOldestIfNeeded(): void {
+        if (this.cache.size >= DecryptedGitContentProvider.MAX_CACHE_SIZE) {
+            const firstKey = this.cache.keys().next().value;
+            if (firstKey !== undefined) {
+                this.cache.delete(firstKey);
+            }
+        }
+    }
+
+    /**
+     * Create a sops-git URI for a file at a revision (or the working tree when ref is omitted).
+     * The path keeps the original extension so the editor picks the right language,
+     * and shows {name} ({revision}){ext} in the tab title.
+     */
+    static createUri(originalUri: vscode.Uri, ref?: string): vscode.Uri {
+        const query: GitContentQuery = { path: originalUri.fsPath, ref };
+        const ext = path.posix.extname(originalUri.path);
+        const nameWithoutExt = path.posix.basename(originalUri.path, ext);
+        const label = ref ? formatRef(ref) : 'Working Tree';
+        return vscode.Uri.from({
+            scheme: SOPS_GIT_SCHEME,
+            path: path.posix.join(path.posix.dirname(originalUri.path), `${nameWithoutExt} (${label})${ext}`),
+            query: JSON.stringify(query)
+        });
+    }
+
+    /**
+     * Read the file path and revision from a sops-git URI
+     */
+    static parseUri(uri: vscode.Uri): GitContentQuery | null {
+        try {
+            const query = JSON.parse(uri.query) as GitContentQuery;
+            return typeof query.path === 'string' ? query : null;
+        } catch {
+            return null;
+        }
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+        this.cache.clear();
+    }
+}
@@ -0,0 +1,219 @@
+import * as vscode from 'vscode';
+import { SopsRunner } from '../sops/sopsRunner';
+import { SopsDetector } from '../sops/sopsDetector';
+import {
+    findKeyPathAt,
+    findKeyPaths,
+    formatKeyPath,
+    KeyPathEntry,
+    SopsKeyPath,
+    supportsKeyPaths,
+    toSopsExpression
+} from '../sops/sopsKeyPaths';
+import { SettingsService } from '../services/settingsService';
+import { logger } from '../services/loggerService';
+
+// Longest revealed value shown inline before it is truncated
+const MAX_INLINE_LENGTH = 120;
+
+interface ParsedDocument {
+    version: number;
+    entries: KeyPathEntry[];
+}
+
+/**
+ * Reveals single encrypted values of YAML/JSON files in place.
+ * Offers Reveal/Copy actions on hover (and optionally as CodeLens) for each ENC[...] leaf;
+ * revealed values are shown inline until hidden, the document changes or it is closed.
+ */
+export class EncryptedValueProvider implements vscode.HoverProvider, vscode.CodeLensProvider, vscode.Disposable {
+    private parsed = new Map<string, ParsedDocument>();
+    /** Revealed plaintext per document URI, keyed by SOPS key path expression */
+    private revealed = new Map<string, Map<string, string>>();
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    private decorationType = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            fontStyle: 'italic',
+            margin: '0 0 0 1em'
+        }
+    });
+
+    /** Event fired when CodeLenses need to be re-computed */
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    constructor(
+        private sopsRunner: SopsRunner,
+        private sopsDetector: SopsDetector,
+        private settingsService: SettingsService
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                // Offsets of revealed values are stale once the text changes
+                if (e.contentChanges.length > 0) {
+                    this.hideAll(e.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((doc) => {
+                const key = doc.uri.toString();
+                this.parsed.delete(key);
+                this.revealed.delete(key);
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations())
+        );
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const entry = findKeyPathAt(this.getEntries(document), document.offsetAt(position));
+        if (!entry?.encrypted) {
+            return undefined;
+        }
+
+        const args = encodeURIComponent(JSON.stringify([document.uri.toString(), entry.path]));
+        const value = this.revealed.get(document.uri.toString())?.get(toSopsExpression(entry.path));
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = { enabledCommands: ['sopsie.revealValue', 'sopsie.hideValue', 'sopsie.copyValue'] };
+        markdown.supportThemeIcons = true;
+
+        markdown.appendMarkdown(`**SOPS** \`${formatKeyPath(entry.path)}\`\n\n`);
+        if (value !== undefined) {
+            markdown.appendCodeblock(value);
+            markdown.appendMarkdown(`[$(eye-closed) Hide](command:sopsie.hideValue?${args}) · `);
+        } else {
+            markdown.appendMarkdown(`[$(eye) Reveal value](command:sopsie.revealValue?${args}) · `);
+        }
+        markdown.appendMarkdown(`[$(copy) Copy value](command:sopsie.copyValue?${args})`);
+
+        return new vscode.Hover(markdown, this.toRange(document, entry));
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!this.settingsService.shouldShowValueCodeLens()) {
+            return [];
+        }
+
+        const revealed = this.revealed.get(document.uri.toString());
+        return this.getEntries(document)
+            .filter((entry) => entry.encrypted)
+            .flatMap((entry) => {
+                const range = this.toRange(document, entry);
+                const args = [document.uri, entry.path];
+                const isRevealed = revealed?.has(toSopsExpression(entry.path)) ?? false;
+                return [
+                    new vscode.CodeLens(range, isRevealed
+                        ? { title: '$(eye-closed) Hide', command: 'sopsie.hideValue', arguments: args }
+                        : { title: '$(eye) Reveal', command: 'sopsie.revealValue', arguments: args }),
+                    new vscode.CodeLens(range, { title: '$(copy) Copy', command: 'sopsie.copyValue', arguments: args })
+                ];
+            });
+    }
+
+    /**
+     * Decrypt a single value and show it inline next to its ciphertext
+     */
+    async reveal(uri: vscode.Uri, keyPath: SopsKeyPath): Promise<void> {
+        const value = await this.sopsRunner.extractValue(uri.fsPath, keyPath);
+
+        const key = uri.toString();
+        const values = this.revealed.get(key) ?? new Map<string, string>();
+        values.set(toSopsExpression(keyPath), value.replace(/\r?\n$/, ''));
+        this.revealed.set(key, values);
+        logger.debug(`EncryptedValueProvider: Revealed ${formatKeyPath(keyPath)} in ${uri.fsPath}`);
+
+        this.updateDecorations();
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    /**
+     * Hide a revealed value
+     */
+    hide(uri: vscode.Uri, keyPath: SopsKeyPath): void {
+        if (this.revealed.get(uri.toString())?.delete(toSopsExpression(keyPath))) {
+            this.updateDecorations();
+            this._onDidChangeCodeLenses.fire();
+        }
+    }
+
+    /**
+     * Hide every revealed value, optionally only for one document
+     */
+    hideAll(uri?: vscode.Uri): void {
+        const hadValues = uri ? this.revealed.delete(uri.toString()) : this.revealed.size > 0;
+        if (!uri) {
+            this.revealed.clear();
+        }
+        if (hadValues) {
+            this.updateDecorations();
+            this._onDidChangeCodeLenses.fire();
+        }
+    }
+
+    /**
+     * Refresh CodeLenses after the setting changed
+     */
+    refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    private getEntries(document: vscode.TextDocument): KeyPathEntry[] {
+        if (document.uri.scheme !== 'file' || !supportsKeyPaths(document.uri.fsPath)) {
+            return [];
+        }
+
+        const key = document.uri.toString();
+        const cached = this.parsed.get(key);
+        if (cached?.version === document.version) {
+            return cached.entries;
+        }
+
+        const entries = this.sopsDetector.isDocumentEncrypted(document)
+            ? findKeyPaths(document.getText(), document.uri.fsPath)
+            : [];
+        this.parsed.set(key, { version: document.version, entries });
+        return entries;
+    }
+
+    private updateDecorations(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const values = this.revealed.get(editor.document.uri.toString());
+            if (!values || values.size === 0) {
+                editor.setDecorations(this.decorationType, []);
+                continue;
+            }
+
+            const decorations = this.getEntries(editor.document)
+                .filter((entry) => values.has(toSopsExpression(entry.path)))
+                .map((entry): vscode.DecorationOptions => ({
+                    range: this.toRange(editor.document, entry),
+                    renderOptions: {
+                        after: { contentText: `= ${formatInline(values.get(toSopsExpression(entry.path)) ?? '')}` }
+                    }
+                }));
+            editor.setDecorations(this.decorationType, decorations);
+        }
+    }
+
+    private toRange(document: vscode.TextDocument, entry: KeyPathEntry): vscode.Range {
+        return new vscode.Range(document.positionAt(entry.start), document.positionAt(entry.end));
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this.decorationType.dispose();
+        this._onDidChangeCodeLenses.dispose();
+        this.parsed.clear();
+        this.revealed.clear();
+    }
+}
+
+/**
+ * Render a value on a single line for inline display
+ */
+function formatInline(value: string): string {
+    const singleLine = value.replace(/\r?\n/g, '⏎');
+    return singleLine.length > MAX_INLINE_LENGTH
+        ? `${singleLine.slice(0, MAX_INLINE_LENGTH)}…`
+        : singleLine;
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { GitCommit, GitRunner } from '../git/gitRunner';
+import { DecryptedContentProvider } from './decryptedContentProvider';
+import { DecryptedFileSystemProvider } from './decryptedFileSystemProvider';
+import { SOPS_DECRYPTED_SCHEME, SOPS_EDIT_SCHEME } from '../types';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+/**
+ * A commit that touched the tracked file.
+ * Clicking it opens a decrypted diff against the previous commit of the file.
+ */
+export class CommitNode extends vscode.TreeItem {
+    constructor(
+        readonly fileUri: vscode.Uri,
+        readonly commit: GitCommit,
+        previousRef: string
+    ) {
+        super(commit.subject, vscode.TreeItemCollapsibleState.None);
+        this.description = `${commit.shortHash} · ${commit.author} · ${new Date(commit.date).toLocaleDateString()}`;
+        this.tooltip = new vscode.MarkdownString(
+            `**${commit.shortHash}** ${commit.author}, ${new Date(commit.date).toLocaleString()}\n\n${commit.subject}`
+        );
+        this.iconPath = new vscode.ThemeIcon('git-commit');
+        this.contextValue = 'sopsCommit';
+        this.command = {
+            command: 'sopsie.diffDecryptedRevisions',
+            title: 'Diff Decrypted with Previous',
+            arguments: [fileUri, previousRef, commit.hash]
+        };
+    }
+}
+
+/**
+ * Tree view listing the git commits that touched the active SOPS file.
+ * Follows the active editor, including decrypted previews and edit-in-place documents.
+ */
+export class FileHistoryTreeProvider implements vscode.TreeDataProvider<CommitNode>, vscode.Disposable {
+    private static readonly REFRESH_DEBOUNCE_MS = 500;
+    private static readonly MAX_COMMITS = 100;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<CommitNode | undefined>();
+    private disposables: vscode.Disposable[] = [];
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private currentFile: vscode.Uri | undefined;
+
+    /** Event fired when the tree needs to be re-rendered */
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(
+        private configManager: ConfigManager,
+        private gitRunner: GitRunner
+    ) {
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor((editor) => this.setActiveDocument(editor?.document.uri))
+        );
+        this.setActiveDocument(vscode.window.activeTextEditor?.document.uri);
+    }
+
+    /**
+     * The file whose history is shown, if any
+     */
+    getCurrentFile(): vscode.Uri | undefined {
+        return this.currentFile;
+    }
+
+    /**
+     * Schedule a debounced refresh of the history
+     */
+    refresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this._onDidChangeTreeData.fire(undefined);
+        }, FileHistoryTreeProvider.REFRESH_DEBOUNCE_MS);
+    }
+
+    getTreeItem(element: CommitNode): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: CommitNode): Promise<CommitNode[]> {
+        const fileUri = this.currentFile;
+        if (element || !fileUri) {
+            return [];
+        }
+
+        try {
+            const commits = await this.gitRunner.getFileHistory(fileUri.fsPath, FileHistoryTreeProvider.MAX_COMMITS);
+            logger.debug(`FileHistoryTreeProvider: Found ${commits.length} commits for ${fileUri.fsPath}`);
+            return commits.map((commit, index) => new CommitNode(
+                fileUri,
+                commit,
+                // The oldest commit is compared with its parent, where the file does not exist yet
+                commits[index + 1]?.hash ?? `${commit.hash}^`
+            ));
+        } catch (error) {
+            logger.error(`FileHistoryTreeProvider: Failed to read history of ${fileUri.fsPath}: ${getErrorMessage(error)}`);
+            return [];
+        }
+    }
+
+    /**
+     * Track the file behind the active document.
+     * Documents of other schemes (diffs, output) keep the current file so the
+     * history stays visible while revisions are being inspected.
+     */
+    private setActiveDocument(uri: vscode.Uri | undefined): void {
+        let fileUri: vscode.Uri | undefined;
+        if (uri?.scheme === 'file') {
+            fileUri = uri;
+        } else if (uri?.scheme === SOPS_DECRYPTED_SCHEME) {
+            fileUri = vscode.Uri.file(DecryptedContentProvider.getOriginalPath(uri));
+        } else if (uri?.scheme === SOPS_EDIT_SCHEME) {
+            fileUri = vscode.Uri.file(DecryptedFileSystemProvider.getOriginalPath(uri));
+        } else {
+            return;
+        }
+
+        const next = this.configManager.hasMatchingRule(fileUri) ? fileUri : undefined;
+        if (next?.toString() === this.currentFile?.toString()) {
+            return;
+        }
+
+        this.currentFile = next;
+        logger.debug(`FileHistoryTreeProvider: Showing history for ${next ? path.basename(next.fsPath) : 'no file'}`);
+        this.refresh();
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { isCatchAllRule, isStructuredFile } from '../config/rulesMatcher';
+import { SopsDetector } from '../sops/sopsDetector';
+import { SettingsService } from '../services/settingsService';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { runWithConcurrency } from '../utils/concurrency';
+
+/**
+ * Diagnostic code for files that match a creation rule but are not encrypted
+ */
+const PLAINTEXT_DIAGNOSTIC_CODE = 'plaintext-secret';
+
+// Files read at once during a workspace scan
+const SCAN_CONCURRENCY = 8;
+
+/**
+ * Flags every YAML, JSON, dotenv and INI file that matches a SOPS creation rule with
+ * path_regex or filename_regex but is stored unencrypted on disk, and offers a quick fix
+ * that encrypts it. Catch-all rules only set defaults for sops, so they are ignored.
+ */
+export class PlaintextDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnostics = vscode.languages.createDiagnosticCollection('sopsie-plaintext');
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private configManager: ConfigManager,
+        private sopsDetector: SopsDetector,
+        private settingsService: SettingsService
+    ) {
+        this.disposables.push(
+            configManager.onDidChangeConfig(() => this.scanWorkspace()),
+            vscode.workspace.onDidSaveTextDocument((doc) => this.updateFile(doc.uri))
+        );
+    }
+
+    /**
+     * Rescan every rule-matched file in the workspace
+     */
+    async scanWorkspace(): Promise<void> {
+        this.diagnostics.clear();
+        if (!this.settingsService.shouldWarnUnencryptedFiles()) {
+            return;
+        }
+
+        try {
+            const matches = (await this.configManager.findMatchingFiles())
+                .filter((match) => isStructuredFile(match.uri.fsPath) && !isCatchAllRule(match.rule));
+            await runWithConcurrency(matches, SCAN_CONCURRENCY, (match) => this.checkFile(match.uri));
+            logger.debug(`PlaintextDiagnosticsProvider: Scanned ${matches.length} rule-matched files`);
+        } catch (error) {
+            logger.error(`PlaintextDiagnosticsProvider: Workspace scan failed: ${getErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Re-check a single file after it was created, changed or saved
+     */
+    async updateFile(uri: vscode.Uri): Promise<void> {
+        if (uri.scheme !== 'file') {
+            return;
+        }
+
+        const rule = this.configManager.findMatchingRule(uri);
+        if (!this.settingsService.shouldWarnUnencryptedFiles() || !isStructuredFile(uri.fsPath) || !rule || isCatchAllRule(rule)) {
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        await this.checkFile(uri);
+    }
+
+    /**
+     * Remove diagnostics for a deleted file
+     */
+    removeFile(uri: vscode.Uri): void {
+        this.diagnostics.delete(uri);
+    }
+
+    /**
+     * Offer "Encrypt" for our plaintext diagnostics
+     */
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter((diagnostic) => diagnostic.code === PLAINTEXT_DIAGNOSTIC_CODE)
+            .map((diagnostic) => {
+                const action = new vscode.CodeAction(
+                    'Encrypt file with SOPS',
+                    vscode.CodeActionKind.QuickFix
+                );
+                action.command = {
+                    command: 'sopsie.encrypt',
+                    title: 'Encrypt file with SOPS',
+                    arguments: [document.uri]
+                };
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                return action;
+            });
+    }
+
+    private async checkFile(uri: vscode.Uri): Promise<void> {
+        let text: string;
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            text = Buffer.from(content).toString('utf-8');
+        } catch (error) {
+            logger.debug(`PlaintextDiagnosticsProvider: Failed to read ${uri.fsPath}: ${getErrorMessage(error)}`);
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        if (this.sopsDetector.isContentEncrypted(text)) {
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        const firstLineLength = text.split(/\r?\n/, 1)[0].length;
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(0, 0, 0, firstLineLength),
+            `${path.basename(uri.fsPath)} matches a SOPS creation rule but is not encrypted`,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'SOPSie';
+        diagnostic.code = PLAINTEXT_DIAGNOSTIC_CODE;
+        this.diagnostics.set(uri, [diagnostic]);
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this.diagnostics.dispose();
+    }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { describeRecipientDrift, findRecipientDrift, RecipientDrift } from '../config/ruleRecipients';
+import { parseSopsMetadata } from '../sops/sopsMetadata';
+import { SettingsService } from '../services/settingsService';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+/**
+ * Diagnostic code for encrypted files whose recipients differ from their creation rule
+ */
+const DRIFT_DIAGNOSTIC_CODE = 'recipient-drift';
+
+// Start of the sops metadata block in YAML/JSON, INI and dotenv files
+const SOPS_BLOCK_REGEX = /^\s*(["']?sops["']?\s*:|\[sops\]|sops_)/;
+
+/**
+ * Check an encrypted file's content against the creation rule that governs it.
+ * Returns null when the file is not encrypted, has no rule, or is up to date.
+ */
+export function checkRecipientDrift(
+    configManager: ConfigManager,
+    uri: vscode.Uri,
+    content: string
+): RecipientDrift | null {
+    const rule = configManager.findMatchingRule(uri);
+    if (!rule) {
+        return null;
+    }
+
+    const metadata = parseSopsMetadata(content, uri.fsPath);
+    if (!metadata) {
+        return null;
+    }
+
+    return findRecipientDrift(metadata, rule);
+}
+
+/**
+ * Flags encrypted workspace files whose recorded recipients no longer match
+ * the keys in their .sops.yaml creation rule, with an "Update Keys" quick fix.
+ */
+export class RecipientDriftProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnostics = vscode.languages.createDiagnosticCollection('sopsie-recipients');
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private configManager: ConfigManager,
+        private settingsService: SettingsService
+    ) {
+        this.disposables.push(
+            configManager.onDidChangeConfig(() => this.scanWorkspace()),
+            vscode.workspace.onDidSaveTextDocument((doc) => this.updateFile(doc.uri))
+        );
+    }
+
+    /**
+     * Rescan every rule-matched file in the workspace
+     */
+    async scanWorkspace(): Promise<void> {
+        this.diagnostics.clear();
+        if (!this.settingsService.shouldWarnOutdatedRecipients()) {
+            return;
+        }
+
+        try {
+            const matches = await this.configManager.findMatchingFiles();
+            await Promise.all(matches.map((match) => this.checkFile(match.uri)));
+            logger.debug(`RecipientDriftProvider: Scanned ${matches.length} rule-matched files`);
+        } catch (error) {
+            logger.error(`RecipientDriftProvider: Workspace scan failed: ${getErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Re-check a single file after it was created, changed or saved
+     */
+    async updateFile(uri: vscode.Uri): Promise<void> {
+        if (uri.scheme !== 'file') {
+            return;
+        }
+
+        if (!this.settingsService.shouldWarnOutdatedRecipients() || !this.configManager.hasMatchingRule(uri)) {
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        await this.checkFile(uri);
+    }
+
+    /**
+     * Remove diagnostics for a deleted file
+     */
+    removeFile(uri: vscode.Uri): void {
+        this.diagnostics.delete(uri);
+    }
+
+    /**
+     * Offer "Update Keys" for our drift diagnostics
+     */
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter((diagnostic) => diagnostic.code === DRIFT_DIAGNOSTIC_CODE)
+            .map((diagnostic) => {
+                const action = new vscode.CodeAction(
+                    'Update keys from .sops.yaml',
+                    vscode.CodeActionKind.QuickFix
+                );
+                action.command = {
+                    command: 'sopsie.updateKeys',
+                    title: 'Update keys from .sops.yaml',
+                    arguments: [document.uri]
+                };
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                return action;
+            });
+    }
+
+    private async checkFile(uri: vscode.Uri): Promise<void> {
+        let text: string;
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            text = Buffer.from(content).toString('utf-8');
+        } catch (error) {
+            logger.debug(`RecipientDriftProvider: Failed to read ${uri.fsPath}: ${getErrorMessage(error)}`);
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        const drift = checkRecipientDrift(this.configManager, uri, text);
+        if (!drift) {
+            this.diagnostics.delete(uri);
+            return;
+        }
+
+        const lines = text.split(/\r?\n/);
+        const lineIndex = Math.max(0, lines.findIndex((line) => SOPS_BLOCK_REGEX.test(line)));
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex]?.length ?? 0),
+            `SOPS recipients differ from the .sops.yaml creation rule: ${describeRecipientDrift(drift)}`,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'SOPSie';
+        diagnostic.code = DRIFT_DIAGNOSTIC_CODE;
+        this.diagnostics.set(uri, [diagnostic]);
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this.diagnostics.dispose();
+    }
+}
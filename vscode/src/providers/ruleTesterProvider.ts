@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { ConfigManager } from '../config/configManager';
+import { parseConfig } from '../config/configParser';
+import { RulesMatcher } from '../config/rulesMatcher';
+import { SopsConfig, SopsCreationRule } from '../types';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+// Creating or deleting many files at once fires a burst of events
+const REFRESH_DEBOUNCE_MS = 1000;
+
+/**
+ * Files governed by one creation rule
+ */
+export interface RuleMatchSummary {
+    /** Files for which this rule is the first match */
+    matched: vscode.Uri[];
+    /** Files this rule matches but that an earlier rule matches first */
+    shadowed: { uri: vscode.Uri; ruleIndex: number }[];
+}
+
+/**
+ * A .sops.yaml parsed from its current text, possibly unsaved
+ */
+export interface ConfigUnderTest {
+    config: SopsConfig;
+    matcher: RulesMatcher;
+    configDir: string;
+}
+
+/**
+ * Parse a .sops.yaml from text. Returns null if it does not parse;
+ * ConfigDiagnosticsProvider reports why.
+ */
+export function parseConfigUnderTest(configUri: vscode.Uri, text: string): ConfigUnderTest | null {
+    try {
+        const config = parseConfig(text);
+        const configDir = path.dirname(configUri.fsPath);
+        return { config, matcher: new RulesMatcher(config, configDir), configDir };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the character offset where each creation rule starts in a .sops.yaml
+ */
+export function findRuleOffsets(text: string): number[] {
+    const doc = yaml.parseDocument(text);
+    const rules = yaml.isMap(doc.contents) ? doc.contents.get('creation_rules', true) : undefined;
+    if (!yaml.isSeq(rules)) {
+        return [];
+    }
+    return rules.items.map((rule) => (yaml.isNode(rule) && rule.range ? rule.range[0] : 0));
+}
+
+/**
+ * Short label for a rule, e.g. "creation_rules[1] (path_regex: \.enc\.yaml$)"
+ */
+export function describeRule(rule: SopsCreationRule, index: number): string {
+    if (rule.path_regex) {
+        return `creation_rules[${index}] (path_regex: ${rule.path_regex})`;
+    }
+    if (rule.filename_regex) {
+        return `creation_rules[${index}] (filename_regex: ${rule.filename_regex})`;
+    }
+    return `creation_rules[${index}] (catch-all)`;
+}
+
+/**
+ * CodeLenses above each creation rule of a .sops.yaml showing how many workspace files
+ * it governs with first-match semantics, and how many it matches but loses to an earlier rule.
+ */
+export class RuleTesterProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private scopeCache = new Map<string, Promise<vscode.Uri[]>>();
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+    /** Event fired when CodeLenses need to be re-computed */
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    constructor(private configManager: ConfigManager) {
+        // Only creations and deletions change which files a rule matches
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.scheduleRefresh()),
+            watcher.onDidDelete(() => this.scheduleRefresh()),
+            configManager.onDidChangeConfig(() => this.refresh())
+        );
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        const text = document.getText();
+        const underTest = parseConfigUnderTest(document.uri, text);
+        if (!underTest) {
+            return [];
+        }
+
+        let summaries: RuleMatchSummary[];
+        try {
+            summaries = await this.getRuleMatches(document.uri, underTest);
+        } catch (error) {
+            logger.debug(`RuleTesterProvider: Failed to match files for ${document.uri.fsPath}: ${getErrorMessage(error)}`);
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        findRuleOffsets(text).forEach((offset, index) => {
+            const summary = summaries[index];
+            if (!summary) {
+                return;
+            }
+
+            const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset));
+            const count = summary.matched.length;
+            const shadowed = summary.shadowed.length;
+            lenses.push(new vscode.CodeLens(range, {
+                title: `$(files) ${count} ${count === 1 ? 'file' : 'files'}${shadowed > 0 ? `, ${shadowed} shadowed` : ''}`,
+                tooltip: 'Files this rule applies to; shadowed files match it but an earlier rule first',
+                command: 'sopsie.showRuleMatches',
+                arguments: [document.uri, index]
+            }));
+            if (index === 0) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: '$(beaker) Test a path',
+                    command: 'sopsie.testRulePath',
+                    arguments: [document.uri]
+                }));
+            }
+        });
+        return lenses;
+    }
+
+    /**
+     * Sort the files in a config's scope by the rule that governs them
+     */
+    async getRuleMatches(configUri: vscode.Uri, underTest: ConfigUnderTest): Promise<RuleMatchSummary[]> {
+        let scope = this.scopeCache.get(configUri.fsPath);
+        if (!scope) {
+            scope = this.configManager.findFilesInConfigScope(configUri);
+            this.scopeCache.set(configUri.fsPath, scope);
+        }
+        const files = await scope;
+
+        const summaries: RuleMatchSummary[] = underTest.config.creation_rules.map(() => ({ matched: [], shadowed: [] }));
+        for (const uri of files) {
+            const [winner, ...losers] = underTest.matcher.findMatchingRuleIndicesForPath(uri.fsPath);
+            if (winner === undefined) {
+                continue;
+            }
+            summaries[winner].matched.push(uri);
+            losers.forEach((index) => summaries[index].shadowed.push({ uri, ruleIndex: winner }));
+        }
+        return summaries;
+    }
+
+    /**
+     * Forget the files in each config's scope and recompute the CodeLenses
+     */
+    refresh(): void {
+        this.scopeCache.clear();
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, REFRESH_DEBOUNCE_MS);
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.scopeCache.clear();
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
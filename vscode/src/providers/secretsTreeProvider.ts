@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager, LoadedConfig } from '../config/configManager';
+import { SopsDetector } from '../sops/sopsDetector';
+import { FileStateTracker } from '../state/fileStateTracker';
+import { FileEncryptionState, SopsCreationRule } from '../types';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+/**
+ * A .sops.yaml file at the root of the tree
+ */
+class ConfigNode extends vscode.TreeItem {
+    constructor(
+        readonly loadedConfig: LoadedConfig,
+        readonly rules: RuleNode[]
+    ) {
+        super(getDisplayPath(loadedConfig.configPath), vscode.TreeItemCollapsibleState.Expanded);
+        this.resourceUri = vscode.Uri.file(loadedConfig.configPath);
+        this.iconPath = new vscode.ThemeIcon('settings-gear');
+        this.contextValue = 'sopsConfig';
+        this.tooltip = loadedConfig.configPath;
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Config',
+            arguments: [this.resourceUri]
+        };
+    }
+}
+
+/**
+ * A creation rule within a config
+ */
+class RuleNode extends vscode.TreeItem {
+    constructor(
+        readonly rule: SopsCreationRule,
+        readonly ruleIndex: number,
+        readonly files: FileNode[]
+    ) {
+        super(
+            describeRule(rule),
+            files.length > 0
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None
+        );
+        this.description = `${files.length} file${files.length === 1 ? '' : 's'}`;
+        this.tooltip = `creation_rules[${ruleIndex}]`;
+        this.iconPath = new vscode.ThemeIcon('filter');
+        this.contextValue = 'sopsRule';
+    }
+}
+
+/**
+ * A file governed by a creation rule
+ */
+class FileNode extends vscode.TreeItem {
+    constructor(
+        uri: vscode.Uri,
+        readonly state: FileEncryptionState
+    ) {
+        super(uri, vscode.TreeItemCollapsibleState.None);
+        const dir = path.dirname(getDisplayPath(uri.fsPath));
+        this.description = dir === '.' ? undefined : dir;
+        this.iconPath = getStateIcon(state);
+        this.tooltip = `${uri.fsPath} (${state})`;
+        this.contextValue = `sopsFile.${state}`;
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open File',
+            arguments: [uri]
+        };
+    }
+}
+
+type SecretsTreeNode = ConfigNode | RuleNode | FileNode;
+
+/**
+ * Get a path relative to its workspace folder for display
+ */
+function getDisplayPath(fsPath: string): string {
+    return vscode.workspace.asRelativePath(fsPath, (vscode.workspace.workspaceFolders?.length ?? 0) > 1);
+}
+
+/**
+ * Describe a creation rule by the pattern that selects its files
+ */
+function describeRule(rule: SopsCreationRule): string {
+    if (rule.path_regex) {
+        return `path_regex: ${rule.path_regex}`;
+    }
+    if (rule.filename_regex) {
+        return `filename_regex: ${rule.filename_regex}`;
+    }
+    return '(catch-all)';
+}
+
+function getStateIcon(state: FileEncryptionState): vscode.ThemeIcon {
+    switch (state) {
+        case FileEncryptionState.Encrypted:
+            return new vscode.ThemeIcon('lock', new vscode.ThemeColor('charts.green'));
+        case FileEncryptionState.Decrypted:
+            return new vscode.ThemeIcon('unlock', new vscode.ThemeColor('charts.yellow'));
+        case FileEncryptionState.PlainText:
+            return new vscode.ThemeIcon('shield', new vscode.ThemeColor('charts.red'));
+        default:
+            return new vscode.ThemeIcon('question');
+    }
+}
+
+/**
+ * Tree view listing every workspace file that matches a SOPS creation rule,
+ * grouped by .sops.yaml and rule, with its encryption state.
+ */
+export class SecretsTreeProvider implements vscode.TreeDataProvider<SecretsTreeNode>, vscode.Disposable {
+    private static readonly REFRESH_DEBOUNCE_MS = 500;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<SecretsTreeNode | undefined>();
+    private disposables: vscode.Disposable[] = [];
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    /** Event fired when the tree needs to be re-rendered */
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(
+        private configManager: ConfigManager,
+        private sopsDetector: SopsDetector,
+        private fileStateTracker: FileStateTracker
+    ) {
+        this.disposables.push(
+            configManager.onDidChangeConfig(() => this.refresh()),
+            fileStateTracker.onDidChangeState(() => this.refresh())
+        );
+    }
+
+    /**
+     * Schedule a debounced refresh of the whole tree
+     */
+    refresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this._onDidChangeTreeData.fire(undefined);
+        }, SecretsTreeProvider.REFRESH_DEBOUNCE_MS);
+    }
+
+    getTreeItem(element: SecretsTreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: SecretsTreeNode): Promise<SecretsTreeNode[]> {
+        if (element instanceof ConfigNode) {
+            return element.rules;
+        }
+        if (element instanceof RuleNode) {
+            return element.files;
+        }
+        if (element) {
+            return [];
+        }
+
+        try {
+            return await this.buildTree();
+        } catch (error) {
+            logger.error(`SecretsTreeProvider: Failed to build tree: ${getErrorMessage(error)}`);
+            return [];
+        }
+    }
+
+    /**
+     * Scan the workspace and build config -> rule -> file nodes
+     */
+    private async buildTree(): Promise<ConfigNode[]> {
+        const matches = await this.configManager.findMatchingFiles();
+        logger.debug(`SecretsTreeProvider: Found ${matches.length} files matching creation rules`);
+
+        const filesByRule = new Map<string, FileNode[]>();
+        await Promise.all(matches.map(async (match) => {
+            const state = await this.getEncryptionState(match.uri);
+            const key = `${match.loadedConfig.configPath}#${match.ruleIndex}`;
+            const files = filesByRule.get(key) ?? [];
+            files.push(new FileNode(match.uri, state));
+            filesByRule.set(key, files);
+        }));
+
+        return this.configManager.getLoadedConfigs().map((loadedConfig) => {
+            const rules = loadedConfig.config.creation_rules.map((rule, index) => {
+                const files = (filesByRule.get(`${loadedConfig.configPath}#${index}`) ?? [])
+                    .sort((a, b) => (a.resourceUri?.fsPath ?? '').localeCompare(b.resourceUri?.fsPath ?? ''));
+                return new RuleNode(rule, index, files);
+            });
+            return new ConfigNode(loadedConfig, rules);
+        });
+    }
+
+    private async getEncryptionState(uri: vscode.Uri): Promise<FileEncryptionState> {
+        if (this.fileStateTracker.isMarkedDecrypted(uri)) {
+            return FileEncryptionState.Decrypted;
+        }
+        return await this.sopsDetector.isEncrypted(uri)
+            ? FileEncryptionState.Encrypted
+            : FileEncryptionState.PlainText;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { FileEncryptionState } from '../types';
+import { describeRecipientDrift, RecipientDrift } from '../config/ruleRecipients';
 
 /**
  * Manages the status bar item for SOPS file status
@@ -17,11 +18,13 @@ export class StatusBarProvider implements vscode.Disposable {
 
     /**
      * Update status bar based on file state
+     * @param recipientDrift Recipient mismatch between an encrypted file and its rule, if any
      */
     update(
         hasMatchingRule: boolean,
         encryptionState: FileEncryptionState,
-        showStatusBar: boolean
+        showStatusBar: boolean,
+        recipientDrift: RecipientDrift | null = null
     ): void {
         if (!showStatusBar || !hasMatchingRule) {
             this.hide();
@@ -30,6 +33,16 @@ export class StatusBarProvider implements vscode.Disposable {
 
         switch (encryptionState) {
             case FileEncryptionState.Encrypted:
+                if (recipientDrift) {
+                    this.statusBarItem.text = '$(lock) SOPS: Keys Outdated';
+                    this.statusBarItem.tooltip =
+                        `Recipients differ from .sops.yaml (${describeRecipientDrift(recipientDrift)}). Click to update keys.`;
+                    this.statusBarItem.command = 'sopsie.updateKeys';
+                    this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+                        'statusBarItem.warningBackground'
+                    );
+                    break;
+                }
                 this.statusBarItem.text = '$(lock) SOPS: Encrypted';
                 this.statusBarItem.tooltip =
                     'This file is SOPS-encrypted. Click to decrypt.';
@@ -1,11 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { SopsRunner } from '../sops/sopsRunner';
-import { TempFileHandler } from '../handlers/tempFileHandler';
 import { DecryptedContentProvider } from '../providers/decryptedContentProvider';
+import { DecryptedFileSystemProvider } from '../providers/decryptedFileSystemProvider';
 import { SettingsService } from './settingsService';
 import { EditorGroupTracker } from './editorGroupTracker';
 import { logger } from './loggerService';
+import { SOPS_DECRYPTED_SCHEME, SOPS_EDIT_SCHEME } from '../types';
 
 export interface ShowDecryptedOptions {
     /** Whether to preserve focus on the original editor (true for auto, false for manual) */
@@ -20,12 +21,12 @@ export interface ShowDecryptedOptions {
 
 /**
  * Service for opening decrypted views of SOPS files.
- * Handles both read-only preview and editable temp file modes.
+ * Handles both read-only preview and editable in-memory document modes.
  */
 export class DecryptedViewService implements vscode.Disposable {
     constructor(
         private sopsRunner: SopsRunner,
-        private tempFileHandler: TempFileHandler,
+        private decryptedFileSystemProvider: DecryptedFileSystemProvider,
         private settingsService: SettingsService,
         private editorGroupTracker: EditorGroupTracker
     ) {}
@@ -113,8 +114,9 @@ export class DecryptedViewService implements vscode.Disposable {
     }
 
     /**
-     * Open an editable temp file with decrypted content.
-     * Creates a temporary file that automatically encrypts back to the original on save.
+     * Open an editable document with decrypted content.
+     * The content is held in memory by the sops-edit:// file system and
+     * automatically encrypts back to the original on save.
      */
     async openEditInPlace(
         sourceUri: vscode.Uri,
@@ -131,12 +133,12 @@ export class DecryptedViewService implements vscode.Disposable {
             }
         );
 
-        const tempUri = await this.tempFileHandler.createTempFile(sourceUri, decrypted);
+        const editUri = this.decryptedFileSystemProvider.createEditDocument(sourceUri, decrypted);
 
         // Set guard flag to prevent auto-close/focus-return during the entire operation
         this.editorGroupTracker.setExtensionTriggeredOpen(true);
         try {
-            const doc = await vscode.workspace.openTextDocument(tempUri);
+            const doc = await vscode.workspace.openTextDocument(editUri);
             const viewColumn = options.targetColumn
                 ?? (this.settingsService.shouldOpenDecryptedBeside()
                     ? vscode.ViewColumn.Beside
@@ -175,8 +177,8 @@ export class DecryptedViewService implements vscode.Disposable {
         }
 
         if (currentMode === 'editInPlace') {
-            const tempDoc = this.getCurrentTempDocument();
-            if (tempDoc?.isDirty) {
+            const editDoc = this.getCurrentEditDocument();
+            if (editDoc?.isDirty) {
                 const choice = await vscode.window.showWarningMessage(
                     'You have unsaved changes in the decrypted file. Save before switching?',
                     'Save',
@@ -187,7 +189,7 @@ export class DecryptedViewService implements vscode.Disposable {
                     return;
                 }
                 if (choice === 'Save') {
-                    await tempDoc.save();
+                    await editDoc.save();
                 }
             }
         }
@@ -275,19 +277,20 @@ export class DecryptedViewService implements vscode.Disposable {
             return null;
         }
 
-        if (tracked.docUri.startsWith('sops-decrypted:')) {
+        const scheme = vscode.Uri.parse(tracked.docUri).scheme;
+        if (scheme === SOPS_DECRYPTED_SCHEME) {
             return 'preview';
         }
-        if (tracked.docUri.includes('.sops-edit')) {
+        if (scheme === SOPS_EDIT_SCHEME) {
             return 'editInPlace';
         }
         return null;
     }
 
     /**
-     * Get the TextDocument for the current temp file (if in edit-in-place mode).
+     * Get the TextDocument for the current edit document (if in edit-in-place mode).
      */
-    private getCurrentTempDocument(): vscode.TextDocument | undefined {
+    private getCurrentEditDocument(): vscode.TextDocument | undefined {
         const tracked = this.editorGroupTracker.getCurrentTrackedDocument();
         if (!tracked) {
             return undefined;
@@ -196,7 +196,7 @@ export class EditorGroupTracker implements vscode.Disposable {
             const closedUriStr = closedTab.input.uri.toString();
             logger.debug('[EditorGroupTracker] handleTabsChanged - tab closed:', closedUriStr);
 
-            // Case 1: A tracked decrypted/temp file was closed
+            // Case 1: A tracked decrypted preview/edit document was closed
             const tracked = this.trackedDocs.get(closedUriStr);
             logger.debug('[EditorGroupTracker] handleTabsChanged - tracked found:', !!tracked, 'trackedDocs.size:', this.trackedDocs.size);
             if (tracked) {
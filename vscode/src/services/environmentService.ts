@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import { SettingsService } from './settingsService';
+import { logger } from './loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+
+// Cache key for files outside any workspace folder
+const NO_FOLDER_KEY = '';
+
+/**
+ * Variables a setting value may refer to, e.g. "${workspaceFolder}/keys.txt"
+ */
+const VARIABLE_REGEX = /\$\{(workspaceFolder|workspaceFolderBasename|userHome|env:([^}]+))\}/g;
+
+/**
+ * Variables that choose which programs sops and gpg run. Like sopsie.sopsPath, they
+ * must not come from settings a cloned repository can set, so only the environment
+ * VS Code was started with provides them.
+ */
+const PROTECTED_VARIABLE_REGEX = /^(PATH|LD_\w+|DYLD_\w+|\w+_EXEC|\w+_CMD)$/i;
+
+/**
+ * Builds the environment sops runs with in each workspace folder from the
+ * sopsie.env and sopsie.envFile settings, so folders can use different keys
+ * (SOPS_AGE_KEY_FILE, AWS_PROFILE, VAULT_ADDR, GNUPGHOME, ...) in one window.
+ * Both settings are ignored in untrusted workspaces.
+ */
+export class EnvironmentService implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    // Map from workspace folder URI to its resolved variables
+    private cache = new Map<string, Promise<Record<string, string | null>>>();
+    private envFileWatchers = new Map<string, vscode.FileSystemWatcher>();
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    /**
+     * Event fired when the variables of any folder may have changed
+     */
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private settingsService: SettingsService) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('sopsie.env') || e.affectsConfiguration('sopsie.envFile')) {
+                    this.invalidate();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate()),
+            // Workspace values of the settings only apply once the workspace is trusted
+            vscode.workspace.onDidGrantWorkspaceTrust(() => this.invalidate())
+        );
+    }
+
+    /**
+     * Get the full process environment for running sops on a file
+     */
+    async getProcessEnv(filePath: string): Promise<NodeJS.ProcessEnv> {
+        const env: NodeJS.ProcessEnv = { ...process.env };
+        for (const [name, value] of Object.entries(await this.getVariables(filePath))) {
+            if (value === null) {
+                delete env[name];
+            } else {
+                env[name] = value;
+            }
+        }
+        return env;
+    }
+
+    /**
+     * Get the variables configured for a file's workspace folder (null = unset).
+     * Values from sopsie.env override those from sopsie.envFile.
+     */
+    getVariables(filePath: string): Promise<Record<string, string | null>> {
+        return this.getFolderVariables(vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)));
+    }
+
+    /**
+     * Get the variables configured for a workspace folder, or for files outside any folder
+     */
+    getFolderVariables(folder: vscode.WorkspaceFolder | undefined): Promise<Record<string, string | null>> {
+        const key = folder ? folder.uri.toString() : NO_FOLDER_KEY;
+        let variables = this.cache.get(key);
+        if (!variables) {
+            variables = this.resolveVariables(folder);
+            this.cache.set(key, variables);
+        }
+        return variables;
+    }
+
+    private async resolveVariables(folder: vscode.WorkspaceFolder | undefined): Promise<Record<string, string | null>> {
+        const variables: Record<string, string | null> = {};
+        const source = folder ? folder.name : 'files outside the workspace';
+
+        const envFile = this.settingsService.getEnvFile(folder?.uri);
+        if (envFile) {
+            const envFilePath = this.resolveEnvFilePath(envFile, folder);
+            if (envFilePath) {
+                this.watchEnvFile(envFilePath);
+                try {
+                    const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(envFilePath))).toString('utf-8');
+                    Object.assign(variables, parseEnvFile(content));
+                } catch (error) {
+                    logger.warn(`EnvironmentService: Failed to read env file ${envFilePath}: ${getErrorMessage(error)}`);
+                }
+            }
+        }
+        Object.assign(variables, this.settingsService.getEnv(folder?.uri));
+
+        for (const [name, value] of Object.entries(variables)) {
+            if (PROTECTED_VARIABLE_REGEX.test(name)) {
+                logger.warn(`EnvironmentService: Not setting ${name} for ${source}: it can only come from the environment VS Code starts with`);
+                delete variables[name];
+                continue;
+            }
+            if (value === null) {
+                continue;
+            }
+            const substituted = substituteVariables(value, folder);
+            if (substituted === undefined) {
+                logger.warn(`EnvironmentService: Not setting ${name} for ${source}: it refers to \${workspaceFolder}`);
+                delete variables[name];
+            } else {
+                variables[name] = substituted;
+            }
+        }
+
+        if (Object.keys(variables).length > 0) {
+            logger.debug(`EnvironmentService: Environment for ${source}: ${Object.keys(variables).join(', ')}`);
+        }
+        return variables;
+    }
+
+    private resolveEnvFilePath(envFile: string, folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        const expanded = substituteVariables(envFile, folder);
+        if (expanded === undefined || (!folder && !path.isAbsolute(expanded))) {
+            logger.warn(`EnvironmentService: Env file ${envFile} must be absolute outside a workspace folder`);
+            return undefined;
+        }
+        return folder ? path.resolve(folder.uri.fsPath, expanded) : expanded;
+    }
+
+    private watchEnvFile(envFilePath: string): void {
+        if (this.envFileWatchers.has(envFilePath)) {
+            return;
+        }
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(envFilePath)), path.basename(envFilePath))
+        );
+        watcher.onDidChange(() => this.invalidate());
+        watcher.onDidCreate(() => this.invalidate());
+        watcher.onDidDelete(() => this.invalidate());
+        this.envFileWatchers.set(envFilePath, watcher);
+    }
+
+    private invalidate(): void {
+        this.cache.clear();
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this.envFileWatchers.forEach((watcher) => watcher.dispose());
+        this.envFileWatchers.clear();
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+        this._onDidChange.dispose();
+        this.cache.clear();
+    }
+}
+
+/**
+ * Parse NAME=value lines. Supports comments, an "export " prefix,
+ * single-quoted literals and double-quoted values with \n escapes.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        const raw = match[2];
+        const singleQuoted = /^'([^']*)'(?:\s+#.*)?$/.exec(raw);
+        const doubleQuoted = /^"((?:[^"\\]|\\.)*)"(?:\s+#.*)?$/.exec(raw);
+        if (singleQuoted) {
+            variables[match[1]] = singleQuoted[1];
+        } else if (doubleQuoted) {
+            variables[match[1]] = doubleQuoted[1].replace(/\\(.)/g, (_escape, char: string) => (char === 'n' ? '\n' : char));
+        } else {
+            // Unquoted values end at an inline comment
+            variables[match[1]] = raw.replace(/(^|\s+)#.*$/, '');
+        }
+    }
+    return variables;
+}
+
+/**
+ * Replace ${workspaceFolder}, ${workspaceFolderBasename}, ${userHome} and ${env:NAME}.
+ * Returns undefined if the value needs a workspace folder and there is none.
+ */
+function substituteVariables(value: string, folder: vscode.WorkspaceFolder | undefined): string | undefined {
+    let missingFolder = false;
+    const result = value.replace(VARIABLE_REGEX, (_match, variable: string, envName: string | undefined) => {
+        if (envName !== undefined) {
+            return process.env[envName] ?? '';
+        }
+        if (variable === 'userHome') {
+            return os.homedir();
+        }
+        if (!folder) {
+            missingFolder = true;
+            return '';
+        }
+        return variable === 'workspaceFolder' ? folder.uri.fsPath : path.basename(folder.uri.fsPath);
+    });
+    return missingFolder ? undefined : result;
+}
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SettingsService } from './settingsService';
+import { EditorGroupTracker } from './editorGroupTracker';
+import { logger } from './loggerService';
+import { FileStateTracker } from '../state/fileStateTracker';
+import { DecryptedContentProvider } from '../providers/decryptedContentProvider';
+import { DecryptedGitContentProvider } from '../providers/decryptedGitContentProvider';
+import { DecryptedFileSystemProvider } from '../providers/decryptedFileSystemProvider';
+import { EncryptedValueProvider } from '../providers/encryptedValueProvider';
+import { SopsRunner } from '../sops/sopsRunner';
+import { getErrorMessage } from '../utils/errorUtils';
+import { SOPS_EDIT_SCHEME } from '../types';
+
+// Documents the user edits; output channels, git and other virtual documents change on their own
+const USER_DOCUMENT_SCHEMES = new Set(['file', 'untitled', SOPS_EDIT_SCHEME]);
+
+/**
+ * File names of decrypted documents whose unsaved edits were encrypted or lost while locking
+ */
+interface PendingEdits {
+    saved: string[];
+    discarded: string[];
+}
+
+/**
+ * Hides decrypted content after a period of inactivity or when the window loses focus,
+ * so secrets don't stay visible on unattended screens.
+ * Encrypts unsaved edits back to their files, closes tracked preview/edit-in-place tabs,
+ * reverts in-place decrypted buffers, hides revealed values and clears the decrypted content caches.
+ * Nothing may prompt while locking: nobody may be there to answer.
+ */
+export class InactivityService implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private idleTimer: NodeJS.Timeout | undefined;
+    private isLocking = false;
+
+    constructor(
+        private settingsService: SettingsService,
+        private editorGroupTracker: EditorGroupTracker,
+        private fileStateTracker: FileStateTracker,
+        private decryptedContentProvider: DecryptedContentProvider,
+        private decryptedGitContentProvider: DecryptedGitContentProvider,
+        private encryptedValueProvider: EncryptedValueProvider,
+        private sopsRunner: SopsRunner
+    ) {
+        // Only user interaction counts as activity, not documents updating in the background
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.resetTimer()),
+            vscode.window.onDidChangeTextEditorSelection((e) => this.resetTimerFor(e.textEditor.document)),
+            vscode.window.onDidChangeTextEditorVisibleRanges((e) => this.resetTimerFor(e.textEditor.document)),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (vscode.window.visibleTextEditors.some((editor) => editor.document === e.document)) {
+                    this.resetTimerFor(e.document);
+                }
+            }),
+            vscode.window.onDidChangeWindowState((state) => {
+                if (state.focused) {
+                    this.resetTimer();
+                } else if (this.settingsService.shouldCloseOnWindowBlur()) {
+                    logger.debug('[InactivityService] Window lost focus');
+                    this.lock();
+                }
+            })
+        );
+
+        this.resetTimer();
+    }
+
+    /**
+     * Restart the inactivity timer (also picks up a changed timeout setting)
+     */
+    resetTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+
+        const minutes = this.settingsService.getIdleTimeout();
+        if (minutes <= 0) {
+            return;
+        }
+
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = undefined;
+            logger.debug(`[InactivityService] No activity for ${minutes} minute(s)`);
+            this.lock();
+        }, minutes * 60 * 1000);
+    }
+
+    private resetTimerFor(document: vscode.TextDocument): void {
+        if (USER_DOCUMENT_SCHEMES.has(document.uri.scheme)) {
+            this.resetTimer();
+        }
+    }
+
+    /**
+     * Close every decrypted view and drop cached plaintext
+     */
+    async lock(): Promise<void> {
+        if (this.isLocking) {
+            return;
+        }
+        this.isLocking = true;
+
+        const pending: PendingEdits = { saved: [], discarded: [] };
+        try {
+            // Dirty tabs would ask to save when closed
+            await this.saveEditDocuments(pending);
+            await this.editorGroupTracker.closeAllTrackedDocuments({ skipFocusReturn: true });
+            await this.revertDecryptedBuffers(pending);
+            this.encryptedValueProvider.hideAll();
+            this.decryptedContentProvider.clearCache();
+            this.decryptedGitContentProvider.clearCache();
+            logger.debug('[InactivityService] Decrypted content hidden');
+            this.reportPendingEdits(pending);
+        } catch (error) {
+            logger.error(`[InactivityService] Failed to hide decrypted content: ${getErrorMessage(error)}`);
+        } finally {
+            this.isLocking = false;
+        }
+    }
+
+    /**
+     * Save edit-in-place documents with unsaved edits, which encrypts them back to their files.
+     * Documents that fail to save are reverted instead.
+     */
+    private async saveEditDocuments(pending: PendingEdits): Promise<void> {
+        const dirty = vscode.workspace.textDocuments.filter((doc) => doc.uri.scheme === SOPS_EDIT_SCHEME && doc.isDirty);
+        for (const doc of dirty) {
+            const name = path.basename(DecryptedFileSystemProvider.getOriginalPath(doc.uri));
+            let saved = false;
+            try {
+                saved = await doc.save();
+            } catch (error) {
+                logger.error(`[InactivityService] Failed to save ${name}: ${getErrorMessage(error)}`);
+            }
+
+            if (saved) {
+                pending.saved.push(name);
+            } else {
+                await this.revertDocument(doc);
+                pending.discarded.push(name);
+            }
+        }
+    }
+
+    /**
+     * Revert files decrypted in their own editor back to the encrypted content on disk.
+     * Edits to those buffers are encrypted into the file first; if that fails they are discarded.
+     */
+    private async revertDecryptedBuffers(pending: PendingEdits): Promise<void> {
+        for (const uri of this.fileStateTracker.getDecryptedFiles()) {
+            const doc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+            if (!doc?.isDirty) {
+                // Closed, or the plaintext was saved to disk: nothing left to revert
+                continue;
+            }
+
+            const name = path.basename(uri.fsPath);
+            try {
+                const original = await fs.promises.readFile(uri.fsPath, 'utf8');
+                // Reuses the data key, so an unedited buffer encrypts to the file as it is
+                const encrypted = await this.sopsRunner.editContent(doc.getText(), uri.fsPath);
+                if (encrypted !== original) {
+                    await fs.promises.writeFile(uri.fsPath, encrypted, 'utf8');
+                    pending.saved.push(name);
+                }
+            } catch (error) {
+                logger.error(`[InactivityService] Failed to encrypt edits to ${name}: ${getErrorMessage(error)}`);
+                pending.discarded.push(name);
+            }
+
+            logger.debug('[InactivityService] Reverting decrypted buffer:', name);
+            await this.revertDocument(doc);
+            this.fileStateTracker.markEncrypted(uri);
+        }
+    }
+
+    /**
+     * Discard a document's unsaved changes without a save prompt
+     */
+    private async revertDocument(doc: vscode.TextDocument): Promise<void> {
+        // The revert command acts on the active editor
+        await vscode.window.showTextDocument(doc, { preview: false });
+        await vscode.commands.executeCommand('workbench.action.files.revert');
+    }
+
+    private reportPendingEdits(pending: PendingEdits): void {
+        if (pending.discarded.length > 0) {
+            vscode.window.showWarningMessage(
+                `Decrypted content was hidden after inactivity. Unsaved edits to ${pending.discarded.join(', ')} could not be encrypted and were discarded.`
+            );
+        }
+        if (pending.saved.length > 0) {
+            vscode.window.showInformationMessage(
+                `Decrypted content was hidden after inactivity. Unsaved edits to ${pending.saved.join(', ')} were encrypted and saved.`
+            );
+        }
+    }
+
+    dispose(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+        this.disposables.forEach((d) => d.dispose());
+        this.disposables = [];
+    }
+}
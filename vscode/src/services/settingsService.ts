@@ -38,6 +38,37 @@ export class SettingsService implements vscode.Disposable {
         return this.getConfig().get<string>('sopsPath', 'sops');
     }
 
+    /**
+     * Get the sops config file set for a workspace folder ('' = find .sops.yaml like the sops CLI).
+     * Read per folder, so it bypasses the cached window configuration.
+     */
+    getConfigPath(folderUri?: vscode.Uri): string {
+        return vscode.workspace
+            .getConfiguration(SettingsService.CONFIG_NAMESPACE, folderUri)
+            .get<string>('configPath', '')
+            .trim();
+    }
+
+    /**
+     * Get the extra environment variables for sops in a workspace folder (null = unset the variable).
+     * Values may still contain ${workspaceFolder} and similar variables.
+     */
+    getEnv(folderUri?: vscode.Uri): Record<string, string | null> {
+        return vscode.workspace
+            .getConfiguration(SettingsService.CONFIG_NAMESPACE, folderUri)
+            .get<Record<string, string | null>>('env', {});
+    }
+
+    /**
+     * Get the .env-style file with environment variables for sops in a workspace folder ('' = none)
+     */
+    getEnvFile(folderUri?: vscode.Uri): string {
+        return vscode.workspace
+            .getConfiguration(SettingsService.CONFIG_NAMESPACE, folderUri)
+            .get<string>('envFile', '')
+            .trim();
+    }
+
     /**
      * Get the decryption timeout in milliseconds
      */
@@ -45,6 +76,49 @@ export class SettingsService implements vscode.Disposable {
         return this.getConfig().get<number>('decryptionTimeout', 30000);
     }
 
+    /**
+     * Get the maximum number of files processed in parallel by bulk key commands
+     */
+    getBulkConcurrency(): number {
+        return Math.max(1, this.getConfig().get<number>('bulkConcurrency', 4));
+    }
+
+    /**
+     * Get the number of seconds after which a copied secret is cleared from the clipboard (0 = never)
+     */
+    getClipboardClearTimeout(): number {
+        return Math.max(0, this.getConfig().get<number>('clipboardClearTimeout', 30));
+    }
+
+    /**
+     * Get the number of minutes without activity after which decrypted content is hidden (0 = never)
+     */
+    getIdleTimeout(): number {
+        return Math.max(0, this.getConfig().get<number>('idleTimeout', 0));
+    }
+
+    /**
+     * Check if decrypted content should be hidden when the window loses focus
+     */
+    shouldCloseOnWindowBlur(): boolean {
+        return this.getConfig().get<boolean>('closeOnWindowBlur', false);
+    }
+
+    /**
+     * Get how rule-matched files staged or committed unencrypted are handled
+     */
+    getPlaintextCommitGuard(): 'off' | 'warn' | 'unstage' {
+        return this.getConfig().get<'off' | 'warn' | 'unstage'>('preventPlaintextCommits', 'warn');
+    }
+
+    /**
+     * Check if the keys of a file should be looked up locally before decrypting
+     * When enabled, decrypting without any usable key fails fast with an explanation
+     */
+    shouldCheckKeysBeforeDecrypt(): boolean {
+        return this.getConfig().get<boolean>('checkKeysBeforeDecrypt', true);
+    }
+
     /**
      * Check if rotation confirmation is enabled
      */
@@ -86,6 +160,30 @@ export class SettingsService implements vscode.Disposable {
         return this.getConfig().get<boolean>('showStatusBar', true);
     }
 
+    /**
+     * Check if files that match a rule but are not encrypted should be flagged
+     * When enabled, a workspace-wide diagnostic is reported for each such file
+     */
+    shouldWarnUnencryptedFiles(): boolean {
+        return this.getConfig().get<boolean>('warnUnencryptedFiles', true);
+    }
+
+    /**
+     * Check if encrypted files whose recipients differ from their rule should be flagged
+     * When enabled, drift is reported as a diagnostic and in the status bar
+     */
+    shouldWarnOutdatedRecipients(): boolean {
+        return this.getConfig().get<boolean>('warnOutdatedRecipients', true);
+    }
+
+    /**
+     * Check if Reveal/Copy CodeLenses should be shown above encrypted values
+     * Hover actions are always available
+     */
+    shouldShowValueCodeLens(): boolean {
+        return this.getConfig().get<boolean>('showValueCodeLens', false);
+    }
+
     /**
      * Get the decrypted view mode setting
      */
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { SopsRunner } from '../sops/sopsRunner';
+import { SopsDetector } from '../sops/sopsDetector';
+import { logger } from './loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
+import { getEditTempOriginal, secureDeleteFile, TEMP_FILE_PREFIX } from '../utils/tempFileUtils';
+
+// Temp files younger than this may belong to an operation still running in another window
+const ORPHAN_MIN_AGE_MS = 2 * 60 * 1000;
+
+// Edit-in-place files written to the OS temp directory by earlier versions: {name}.sops-edit{ext}
+const LEGACY_EDIT_FILE_REGEX = /^(.+)\.sops-edit(\.[^.]+)?$/;
+
+/**
+ * A temp file left behind by a crash
+ */
+interface OrphanedFile {
+    path: string;
+    modified: Date;
+    /** Whether the file holds decrypted content */
+    plaintext: boolean;
+    /** Files the content may belong to (empty when unknown) */
+    originals: string[];
+}
+
+interface RecoverPickItem extends vscode.QuickPickItem {
+    orphan: OrphanedFile;
+}
+
+/**
+ * Finds plaintext temp files left behind when VS Code crashed during a SOPS operation:
+ * `.sopsie-temp-*` files next to the originals and legacy `.sops-edit` files in the OS temp directory.
+ * Offers to re-encrypt unsaved edits into their originals and deletes the rest.
+ */
+export class TempFileRecoveryService {
+    constructor(
+        private configManager: ConfigManager,
+        private sopsRunner: SopsRunner,
+        private sopsDetector: SopsDetector
+    ) {}
+
+    /**
+     * Scan for orphaned temp files, then recover or delete them
+     */
+    async recoverOrphanedFiles(): Promise<void> {
+        let orphans: OrphanedFile[];
+        try {
+            orphans = [...await this.findWorkspaceOrphans(), ...await this.findLegacyOrphans()];
+        } catch (error) {
+            logger.error(`[TempFileRecovery] Scan failed: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        if (orphans.length === 0) {
+            return;
+        }
+        logger.info(`[TempFileRecovery] Found ${orphans.length} orphaned temp file(s)`);
+
+        // Encrypted scratch copies and plaintext without a known original cannot be recovered
+        const recoverable = orphans.filter((orphan) => orphan.plaintext && orphan.originals.length > 0);
+        const unrecoverable = orphans.filter((orphan) => !recoverable.includes(orphan));
+        await this.deleteFiles(unrecoverable);
+
+        const deletedPlaintext = unrecoverable.filter((orphan) => orphan.plaintext).length;
+        if (deletedPlaintext > 0) {
+            vscode.window.showInformationMessage(
+                `Deleted ${deletedPlaintext} decrypted temp file(s) left behind by an interrupted SOPS operation`
+            );
+        }
+
+        if (recoverable.length === 0) {
+            return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `Found ${recoverable.length} decrypted file(s) left behind by an interrupted SOPS save. ` +
+            'They may contain unsaved edits and must not be committed.',
+            'Recover...',
+            'Delete'
+        );
+
+        if (action === 'Delete') {
+            await this.deleteFiles(recoverable);
+        } else if (action === 'Recover...') {
+            await this.recover(recoverable);
+        }
+        // When dismissed, the files are offered again on the next start
+    }
+
+    /**
+     * Let the user pick the edits to re-encrypt into their originals; the rest is deleted
+     */
+    private async recover(orphans: OrphanedFile[]): Promise<void> {
+        const picked = await vscode.window.showQuickPick<RecoverPickItem>(
+            orphans.map((orphan) => ({
+                label: path.basename(orphan.originals[0]),
+                description: orphan.originals.length === 1
+                    ? vscode.workspace.asRelativePath(orphan.originals[0])
+                    : `${orphan.originals.length} possible originals`,
+                detail: `Saved ${orphan.modified.toLocaleString()} · ${orphan.path}`,
+                picked: true,
+                orphan
+            })),
+            {
+                title: 'SOPS: Recover Unsaved Edits',
+                placeHolder: 'Selected edits are encrypted into their original file (replacing it); the rest are deleted',
+                canPickMany: true,
+                ignoreFocusOut: true
+            }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const kept = new Set<OrphanedFile>();
+        for (const item of picked) {
+            const original = await this.pickOriginal(item.orphan);
+            if (!original) {
+                kept.add(item.orphan);
+                continue;
+            }
+
+            try {
+                const content = await fs.promises.readFile(item.orphan.path, 'utf8');
+                const encrypted = await this.sopsRunner.editContent(content, original);
+                await fs.promises.writeFile(original, encrypted, 'utf8');
+                logger.info(`[TempFileRecovery] Recovered ${item.orphan.path} into ${original}`);
+                vscode.window.showInformationMessage(`Recovered unsaved edits of ${path.basename(original)}`);
+            } catch (error) {
+                // Keep the file so the edits are not lost
+                vscode.window.showErrorMessage(
+                    `Failed to recover ${path.basename(original)}: ${getErrorMessage(error)}. The decrypted copy was kept at ${item.orphan.path}.`
+                );
+                kept.add(item.orphan);
+            }
+        }
+
+        await this.deleteFiles(orphans.filter((orphan) => !kept.has(orphan)));
+    }
+
+    /**
+     * Resolve the original of a temp file, asking when several files could match
+     */
+    private async pickOriginal(orphan: OrphanedFile): Promise<string | undefined> {
+        if (orphan.originals.length === 1) {
+            return orphan.originals[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            orphan.originals.map((original) => ({
+                label: vscode.workspace.asRelativePath(original),
+                original
+            })),
+            { title: `SOPS: Recover ${path.basename(orphan.path)}`, placeHolder: 'Select the file these edits belong to' }
+        );
+        return picked?.original;
+    }
+
+    /**
+     * Find .sopsie-temp-* files next to workspace files
+     */
+    private async findWorkspaceOrphans(): Promise<OrphanedFile[]> {
+        const files = await vscode.workspace.findFiles(`**/${TEMP_FILE_PREFIX}*`, '**/node_modules/**');
+
+        const orphans: OrphanedFile[] = [];
+        for (const uri of files) {
+            const original = getEditTempOriginal(uri.fsPath);
+            const orphan = await this.inspect(uri.fsPath, original ? [original] : []);
+            if (orphan) {
+                orphans.push(orphan);
+            }
+        }
+        return orphans;
+    }
+
+    /**
+     * Find {name}.sops-edit{ext} files in the OS temp directory and match them to
+     * rule-matched workspace files by name
+     */
+    private async findLegacyOrphans(): Promise<OrphanedFile[]> {
+        const tempDir = os.tmpdir();
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(tempDir);
+        } catch {
+            return [];
+        }
+
+        const orphans: OrphanedFile[] = [];
+        // Only searched once a legacy file turns up
+        let ruleMatchedPaths: string[] | undefined;
+        for (const name of names) {
+            const match = LEGACY_EDIT_FILE_REGEX.exec(name);
+            if (!match) {
+                continue;
+            }
+
+            ruleMatchedPaths ??= (await this.configManager.findMatchingFiles()).map((candidate) => candidate.uri.fsPath);
+            const originalName = `${match[1]}${match[2] ?? ''}`;
+            const orphan = await this.inspect(
+                path.join(tempDir, name),
+                ruleMatchedPaths.filter((filePath) => path.basename(filePath) === originalName)
+            );
+            if (orphan) {
+                orphans.push(orphan);
+            }
+        }
+        return orphans;
+    }
+
+    /**
+     * Describe a temp file, or return undefined if it is too recent to be an orphan
+     */
+    private async inspect(filePath: string, originals: string[]): Promise<OrphanedFile | undefined> {
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (!stat.isFile() || Date.now() - stat.mtimeMs < ORPHAN_MIN_AGE_MS) {
+                return undefined;
+            }
+
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            return {
+                path: filePath,
+                modified: stat.mtime,
+                plaintext: !this.sopsDetector.isContentEncrypted(content),
+                originals
+            };
+        } catch (error) {
+            logger.debug(`[TempFileRecovery] Cannot read ${filePath}: ${getErrorMessage(error)}`);
+            return undefined;
+        }
+    }
+
+    private async deleteFiles(orphans: OrphanedFile[]): Promise<void> {
+        for (const orphan of orphans) {
+            try {
+                await secureDeleteFile(orphan.path);
+                logger.info(`[TempFileRecovery] Deleted ${orphan.path}`);
+            } catch (error) {
+                logger.error(`[TempFileRecovery] Failed to delete ${orphan.path}: ${getErrorMessage(error)}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,450 @@
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SopsMetadata, SopsRecipient } from '../types';
+import { formatRecipient } from '../config/ruleRecipients';
+
+const GPG_TIMEOUT = 5000;
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// PKCS#8 header of a raw X25519 private key, so node:crypto can derive the public key
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+/**
+ * Whether a master key of a file can be used on this machine:
+ * - available: a matching local key (age identity, GPG secret key) was found
+ * - unverified: only the key service can tell, e.g. for any cloud or Vault key
+ * - missing: no local age or GPG key matches
+ * Cloud and Vault keys are never missing: instance roles, metadata servers, managed
+ * identities and Vault agents provide credentials that leave no trace to check.
+ */
+export type KeyStatus = 'available' | 'unverified' | 'missing';
+
+export interface RecipientAvailability {
+    recipient: SopsRecipient;
+    status: KeyStatus;
+    /** Where the key or credentials were (not) found */
+    reason: string;
+}
+
+export interface KeyAvailability {
+    /** False only if no combination of local keys can decrypt the file */
+    canDecrypt: boolean;
+    /** Availability per key group, in metadata order */
+    groups: RecipientAvailability[][];
+}
+
+/**
+ * Check which of a file's recipients have a key or credentials on this machine,
+ * looking where sops itself looks with the given environment.
+ * Catches the common "no key at all" case without a call to sops, which may wait
+ * for a KMS timeout first. Credentials are only checked for presence, not validity.
+ */
+export async function checkKeyAvailability(
+    metadata: SopsMetadata,
+    env: NodeJS.ProcessEnv
+): Promise<KeyAvailability> {
+    const recipients = metadata.keyGroups.flat();
+    const ageIdentities = readAgeIdentities(env);
+    const gpgFingerprints = recipients.some((r) => r.type === 'pgp') ? await listGpgSecretKeys(env) : undefined;
+
+    const groups = metadata.keyGroups.map((group) => group.map((recipient): RecipientAvailability => {
+        switch (recipient.type) {
+            case 'age':
+                return { recipient, ...checkAgeRecipient(recipient.id, ageIdentities, env) };
+            case 'pgp':
+                return { recipient, ...checkPgpRecipient(recipient.id, gpgFingerprints) };
+            case 'kms':
+                return { recipient, ...checkAwsCredentials(recipient, env) };
+            case 'gcp_kms':
+                return { recipient, ...checkGcpCredentials(env) };
+            case 'azure_kv':
+                return { recipient, ...checkAzureCredentials(env) };
+            case 'hc_vault_transit':
+                return { recipient, ...checkVaultCredentials(env) };
+        }
+    }));
+
+    // Shamir threshold 0 or unset means every key group is needed
+    const required = metadata.shamirThreshold || groups.length;
+    const usableGroups = groups.filter((group) => group.some((entry) => entry.status !== 'missing')).length;
+    return { canDecrypt: groups.length === 0 || usableGroups >= required, groups };
+}
+
+/**
+ * Explain why a file cannot be decrypted here: a short message naming the keys
+ * that would work, and one line per recipient with what was checked.
+ */
+export function describeMissingKeys(filePath: string, availability: KeyAvailability): { message: string; details: string } {
+    const recipients = availability.groups.flat().map((entry) => entry.recipient);
+    const shown = recipients.slice(0, 3).map((recipient) => shortenRecipient(recipient)).join(', ');
+    const more = recipients.length > 3 ? ` and ${recipients.length - 3} more` : '';
+    const message = `You have no key for ${path.basename(filePath)}. It can be decrypted with ${shown}${more}.`;
+
+    const lines = availability.groups.flatMap((group, index) => [
+        ...(availability.groups.length > 1 ? [`Key group ${index + 1}:`] : []),
+        ...group.map((entry) => `  ${formatRecipient(entry.recipient)}: ${entry.reason}`)
+    ]);
+    return { message, details: `No usable key found for ${filePath}\n${lines.join('\n')}` };
+}
+
+function shortenRecipient(recipient: SopsRecipient): string {
+    const id = recipient.id.length > 24 ? `${recipient.id.slice(0, 12)}…${recipient.id.slice(-8)}` : recipient.id;
+    return `${recipient.type} ${id}`;
+}
+
+interface AgeIdentities {
+    /** Recipients (age1...) of the X25519 identities found */
+    recipients: Set<string>;
+    /** Files and variables that were read */
+    sources: string[];
+    /** Identities that cannot be matched offline, e.g. plugin identities or SOPS_AGE_KEY_CMD */
+    hasOpaqueIdentities: boolean;
+}
+
+/**
+ * Read the age identities sops would use from SOPS_AGE_KEY, SOPS_AGE_KEY_FILE
+ * and the default keys.txt
+ */
+function readAgeIdentities(env: NodeJS.ProcessEnv): AgeIdentities {
+    const identities: AgeIdentities = { recipients: new Set(), sources: [], hasOpaqueIdentities: false };
+
+    const addContent = (content: string): void => {
+        for (const line of content.split(/\r?\n/)) {
+            const trimmed = line.trim();
+            if (trimmed.startsWith('AGE-SECRET-KEY-1')) {
+                const recipient = deriveAgeRecipient(trimmed);
+                if (recipient) {
+                    identities.recipients.add(recipient);
+                }
+            } else if (trimmed.startsWith('AGE-PLUGIN-')) {
+                identities.hasOpaqueIdentities = true;
+            }
+        }
+    };
+
+    if (env.SOPS_AGE_KEY) {
+        identities.sources.push('SOPS_AGE_KEY');
+        addContent(env.SOPS_AGE_KEY);
+    }
+    if (env.SOPS_AGE_KEY_CMD) {
+        identities.sources.push('SOPS_AGE_KEY_CMD');
+        identities.hasOpaqueIdentities = true;
+    }
+    for (const keyFile of [env.SOPS_AGE_KEY_FILE, getDefaultAgeKeyFile(env)]) {
+        if (!keyFile || identities.sources.includes(keyFile)) {
+            continue;
+        }
+        identities.sources.push(keyFile);
+        try {
+            addContent(fs.readFileSync(keyFile, 'utf8'));
+        } catch {
+            // sops skips missing key files as well
+        }
+    }
+    return identities;
+}
+
+function getDefaultAgeKeyFile(env: NodeJS.ProcessEnv): string {
+    // Go's os.UserConfigDir, which sops uses for the default location
+    let configDir: string;
+    if (process.platform === 'win32') {
+        configDir = env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming');
+    } else if (env.XDG_CONFIG_HOME) {
+        configDir = env.XDG_CONFIG_HOME;
+    } else if (process.platform === 'darwin') {
+        configDir = path.join(os.homedir(), 'Library', 'Application Support');
+    } else {
+        configDir = path.join(os.homedir(), '.config');
+    }
+    return path.join(configDir, 'sops', 'age', 'keys.txt');
+}
+
+function checkAgeRecipient(
+    recipient: string,
+    identities: AgeIdentities,
+    env: NodeJS.ProcessEnv
+): { status: KeyStatus; reason: string } {
+    if (recipient.startsWith('ssh-')) {
+        return checkSshRecipient(recipient, env);
+    }
+    const searched = identities.sources.join(', ');
+    if (identities.recipients.has(recipient)) {
+        return { status: 'available', reason: `matching identity in ${searched}` };
+    }
+    // Plugin recipients (age1yubikey1..., age1tpm1...) have a second separator; only their plugin can tell
+    if (identities.hasOpaqueIdentities || recipient.lastIndexOf('1') > 3) {
+        return { status: 'unverified', reason: `plugin or command identities in ${searched} may match` };
+    }
+    return { status: 'missing', reason: `no matching identity in ${searched}` };
+}
+
+/**
+ * SSH recipients decrypt with the private key next to their .pub file
+ */
+function checkSshRecipient(recipient: string, env: NodeJS.ProcessEnv): { status: KeyStatus; reason: string } {
+    const wanted = recipient.split(/\s+/).slice(0, 2).join(' ');
+    const sshDir = path.join(os.homedir(), '.ssh');
+    const keyFiles = env.SOPS_AGE_SSH_PRIVATE_KEY_FILE
+        ? [env.SOPS_AGE_SSH_PRIVATE_KEY_FILE]
+        : [path.join(sshDir, 'id_ed25519'), path.join(sshDir, 'id_rsa')];
+
+    for (const keyFile of keyFiles) {
+        if (!fs.existsSync(keyFile)) {
+            continue;
+        }
+        try {
+            const publicKey = fs.readFileSync(`${keyFile}.pub`, 'utf8').trim().split(/\s+/).slice(0, 2).join(' ');
+            if (publicKey === wanted) {
+                return { status: 'available', reason: `matching SSH key ${keyFile}` };
+            }
+        } catch {
+            return { status: 'unverified', reason: `SSH key ${keyFile} has no .pub file to compare` };
+        }
+    }
+    return { status: 'missing', reason: `no matching SSH key in ${keyFiles.join(', ')}` };
+}
+
+/**
+ * Compute the age1... recipient of an AGE-SECRET-KEY-1... identity
+ */
+function deriveAgeRecipient(identity: string): string | undefined {
+    const decoded = bech32Decode(identity.toLowerCase());
+    if (!decoded || decoded.hrp !== 'age-secret-key-' || decoded.data.length !== 32) {
+        return undefined;
+    }
+    try {
+        const privateKey = crypto.createPrivateKey({
+            key: Buffer.concat([X25519_PKCS8_PREFIX, decoded.data]),
+            format: 'der',
+            type: 'pkcs8'
+        });
+        const publicKey = crypto.createPublicKey(privateKey).export({ format: 'jwk' }).x;
+        return publicKey ? bech32Encode('age', Buffer.from(publicKey, 'base64url')) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Files gpg changes when secret keys are imported or deleted
+const GPG_KEYRING_FILES = ['private-keys-v1.d', 'pubring.kbx', 'pubring.gpg', 'secring.gpg'];
+
+interface GpgKeyListing {
+    keyringState: string;
+    fingerprints: Promise<string[] | undefined>;
+}
+
+// Map from gpg executable and home directory to its last secret key listing
+const gpgKeyListings = new Map<string, GpgKeyListing>();
+
+/**
+ * List the fingerprints of the GPG secret keys and subkeys, or undefined if gpg cannot be run.
+ * Listings are reused until the keyring changes on disk.
+ */
+function listGpgSecretKeys(env: NodeJS.ProcessEnv): Promise<string[] | undefined> {
+    const gpgExec = env.SOPS_GPG_EXEC || 'gpg';
+    const homeDir = getGpgHomeDir(env);
+    const key = `${gpgExec}\0${homeDir}`;
+    const keyringState = getKeyringState(homeDir);
+
+    const cached = gpgKeyListings.get(key);
+    if (cached && cached.keyringState === keyringState) {
+        return cached.fingerprints;
+    }
+    const fingerprints = runGpgListSecretKeys(gpgExec, env);
+    gpgKeyListings.set(key, { keyringState, fingerprints });
+    // Retry on the next check if gpg could not be run
+    void fingerprints.then((result) => {
+        if (!result && gpgKeyListings.get(key)?.fingerprints === fingerprints) {
+            gpgKeyListings.delete(key);
+        }
+    });
+    return fingerprints;
+}
+
+function runGpgListSecretKeys(gpgExec: string, env: NodeJS.ProcessEnv): Promise<string[] | undefined> {
+    return new Promise((resolve) => {
+        execFile(
+            gpgExec,
+            ['--list-secret-keys', '--with-colons'],
+            { env, timeout: GPG_TIMEOUT, encoding: 'utf8' },
+            (error, stdout) => {
+                if (error) {
+                    resolve(undefined);
+                    return;
+                }
+                resolve(stdout.split(/\r?\n/)
+                    .filter((line) => line.startsWith('fpr:'))
+                    .map((line) => line.split(':')[9]?.toUpperCase() ?? '')
+                    .filter((fingerprint) => fingerprint !== ''));
+            }
+        );
+    });
+}
+
+function getGpgHomeDir(env: NodeJS.ProcessEnv): string {
+    if (env.GNUPGHOME) {
+        return env.GNUPGHOME;
+    }
+    return process.platform === 'win32'
+        ? path.join(env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming'), 'gnupg')
+        : path.join(os.homedir(), '.gnupg');
+}
+
+/**
+ * Modification times of the keyring files, which change whenever keys are added or removed
+ */
+function getKeyringState(homeDir: string): string {
+    return GPG_KEYRING_FILES.map((name) => {
+        try {
+            return fs.statSync(path.join(homeDir, name)).mtimeMs;
+        } catch {
+            return 0;
+        }
+    }).join(':');
+}
+
+function checkPgpRecipient(fingerprint: string, secretKeys: string[] | undefined): { status: KeyStatus; reason: string } {
+    if (!secretKeys) {
+        return { status: 'unverified', reason: 'gpg could not be run to list secret keys' };
+    }
+    // sops accepts long key IDs as well as full fingerprints
+    const wanted = fingerprint.replace(/\s+/g, '').toUpperCase();
+    if (secretKeys.some((key) => key.endsWith(wanted))) {
+        return { status: 'available', reason: 'secret key in the GPG keyring' };
+    }
+    return { status: 'missing', reason: 'no matching secret key in the GPG keyring' };
+}
+
+function checkAwsCredentials(recipient: SopsRecipient, env: NodeJS.ProcessEnv): { status: KeyStatus; reason: string } {
+    const profile = recipient.details?.aws_profile;
+    const sources = [
+        env.AWS_ACCESS_KEY_ID && 'AWS_ACCESS_KEY_ID',
+        env.AWS_WEB_IDENTITY_TOKEN_FILE && 'AWS_WEB_IDENTITY_TOKEN_FILE',
+        (env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI || env.AWS_CONTAINER_CREDENTIALS_FULL_URI) && 'container credentials',
+        existingFile(env.AWS_SHARED_CREDENTIALS_FILE ?? path.join(os.homedir(), '.aws', 'credentials')),
+        existingFile(env.AWS_CONFIG_FILE ?? path.join(os.homedir(), '.aws', 'config'))
+    ].filter((source): source is string => Boolean(source));
+
+    if (sources.length === 0) {
+        return { status: 'unverified', reason: 'no AWS credentials in the environment or ~/.aws; an instance or task role may still provide them' };
+    }
+    return { status: 'unverified', reason: `AWS credentials from ${sources.join(', ')}${profile ? ` (profile ${profile})` : ''}` };
+}
+
+function checkGcpCredentials(env: NodeJS.ProcessEnv): { status: KeyStatus; reason: string } {
+    const gcloudDir = env.CLOUDSDK_CONFIG ?? (process.platform === 'win32'
+        ? path.join(env.APPDATA ?? path.join(os.homedir(), 'AppData', 'Roaming'), 'gcloud')
+        : path.join(os.homedir(), '.config', 'gcloud'));
+    const sources = [
+        env.GOOGLE_APPLICATION_CREDENTIALS && 'GOOGLE_APPLICATION_CREDENTIALS',
+        env.GOOGLE_CREDENTIALS && 'GOOGLE_CREDENTIALS',
+        env.GOOGLE_OAUTH_ACCESS_TOKEN && 'GOOGLE_OAUTH_ACCESS_TOKEN',
+        existingFile(path.join(gcloudDir, 'application_default_credentials.json'))
+    ].filter((source): source is string => Boolean(source));
+
+    if (sources.length === 0) {
+        return { status: 'unverified', reason: 'no Google application default credentials (run `gcloud auth application-default login`); the GCE/GKE metadata server may still provide them' };
+    }
+    return { status: 'unverified', reason: `Google credentials from ${sources.join(', ')}` };
+}
+
+function checkAzureCredentials(env: NodeJS.ProcessEnv): { status: KeyStatus; reason: string } {
+    const azureDir = env.AZURE_CONFIG_DIR ?? path.join(os.homedir(), '.azure');
+    const sources = [
+        env.AZURE_CLIENT_ID && env.AZURE_TENANT_ID && 'AZURE_CLIENT_ID',
+        env.AZURE_FEDERATED_TOKEN_FILE && 'AZURE_FEDERATED_TOKEN_FILE',
+        existingFile(path.join(azureDir, 'azureProfile.json')) && 'Azure CLI login'
+    ].filter((source): source is string => Boolean(source));
+
+    if (sources.length === 0) {
+        return { status: 'unverified', reason: 'no Azure credentials (run `az login` or set AZURE_CLIENT_ID and AZURE_TENANT_ID); a managed identity may still provide them' };
+    }
+    return { status: 'unverified', reason: `Azure credentials from ${sources.join(', ')}` };
+}
+
+function checkVaultCredentials(env: NodeJS.ProcessEnv): { status: KeyStatus; reason: string } {
+    if (env.VAULT_TOKEN) {
+        return { status: 'unverified', reason: 'Vault token from VAULT_TOKEN' };
+    }
+    if (env.VAULT_AGENT_ADDR) {
+        return { status: 'unverified', reason: `Vault agent at ${env.VAULT_AGENT_ADDR}` };
+    }
+    const tokenFile = existingFile(path.join(os.homedir(), '.vault-token'));
+    if (tokenFile) {
+        return { status: 'unverified', reason: `Vault token from ${tokenFile}` };
+    }
+    return { status: 'unverified', reason: 'no Vault token (run `vault login` or set VAULT_TOKEN); Vault may still accept the request' };
+}
+
+function existingFile(filePath: string): string | undefined {
+    return fs.existsSync(filePath) ? filePath : undefined;
+}
+
+function bech32Polymod(values: number[]): number {
+    const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+    let checksum = 1;
+    for (const value of values) {
+        const top = checksum >>> 25;
+        checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+        generators.forEach((generator, bit) => {
+            if ((top >>> bit) & 1) {
+                checksum ^= generator;
+            }
+        });
+    }
+    return checksum;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+    const chars = Array.from(hrp, (char) => char.charCodeAt(0));
+    return [...chars.map((code) => code >>> 5), 0, ...chars.map((code) => code & 31)];
+}
+
+function convertBits(data: Iterable<number>, fromBits: number, toBits: number, pad: boolean): number[] | undefined {
+    let accumulator = 0;
+    let bits = 0;
+    const result: number[] = [];
+    const maxValue = (1 << toBits) - 1;
+    for (const value of data) {
+        accumulator = (accumulator << fromBits) | value;
+        bits += fromBits;
+        while (bits >= toBits) {
+            bits -= toBits;
+            result.push((accumulator >>> bits) & maxValue);
+        }
+    }
+    if (pad && bits > 0) {
+        result.push((accumulator << (toBits - bits)) & maxValue);
+    } else if (!pad && (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue))) {
+        return undefined;
+    }
+    return result;
+}
+
+/**
+ * Decode a bech32 string (age keys are bech32, not bech32m, and may exceed 90 characters)
+ */
+function bech32Decode(value: string): { hrp: string; data: Buffer } | undefined {
+    const separator = value.lastIndexOf('1');
+    if (separator < 1 || separator + 7 > value.length) {
+        return undefined;
+    }
+    const hrp = value.slice(0, separator);
+    const words = Array.from(value.slice(separator + 1), (char) => BECH32_CHARSET.indexOf(char));
+    if (words.includes(-1) || bech32Polymod([...bech32HrpExpand(hrp), ...words]) !== 1) {
+        return undefined;
+    }
+    const bytes = convertBits(words.slice(0, -6), 5, 8, false);
+    return bytes ? { hrp, data: Buffer.from(bytes) } : undefined;
+}
+
+function bech32Encode(hrp: string, data: Buffer): string {
+    const words = convertBits(data, 8, 5, true) ?? [];
+    const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+    const checksum = Array.from({ length: 6 }, (_, index) => (polymod >>> (5 * (5 - index))) & 31);
+    return `${hrp}1${[...words, ...checksum].map((word) => BECH32_CHARSET[word]).join('')}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * SOPS content detection without VS Code dependencies.
+ * Shared by SopsDetector and the git pre-commit hook, which runs outside VS Code.
+ */
+
+// Regex to match SOPS metadata fields (mac, lastmodified, version) in YAML/JSON
+const SOPS_METADATA_REGEX = /["']?(mac|lastmodified|version)["']?\s*:/;
+// Regex to match SOPS metadata fields in INI files (uses = instead of :)
+const SOPS_INI_METADATA_REGEX = /^(mac|lastmodified|version)\s*=/m;
+
+/**
+ * Check if content string is SOPS-encrypted
+ */
+export function isSopsEncryptedContent(content: string): boolean {
+    // Quick check: if no "sops" anywhere, not encrypted
+    if (!content.includes('sops')) {
+        return false;
+    }
+
+    // Check for SOPS metadata marker in various formats
+    // YAML format: sops:
+    // JSON format: "sops":
+    // The sops key contains mac, version, and key information
+    if (/["']?sops["']?\s*:/m.test(content)) {
+        // Additional check: ensure it has expected SOPS metadata fields
+        // to avoid false positives with files that just have a "sops" key
+        // Using single regex instead of multiple includes() for performance
+        return SOPS_METADATA_REGEX.test(content);
+    }
+
+    // INI files have sops metadata in a [sops] section
+    if (/^\[sops\]\s*$/m.test(content)) {
+        return SOPS_INI_METADATA_REGEX.test(content);
+    }
+
+    // ENV files have sops metadata as prefixed keys
+    if (content.includes('sops_version=') || content.includes('sops_mac=')) {
+        return true;
+    }
+
+    // Binary format detection (rarely used)
+    if (content.startsWith('SOPS')) {
+        return true;
+    }
+
+    return false;
+}
@@ -0,0 +1,141 @@
+import * as path from 'path';
+import * as yaml from 'yaml';
+
+/**
+ * Path to a value in a structured file: map keys and sequence indexes
+ */
+export type SopsKeyPath = (string | number)[];
+
+/**
+ * A value in an encrypted document: a leaf, or a map/sequence branch
+ */
+export interface KeyPathEntry {
+    path: SopsKeyPath;
+    /** Character offsets of the value in the document */
+    start: number;
+    end: number;
+    /** Whether the value is a map or sequence rather than a leaf */
+    branch: boolean;
+    /** Whether the value is a SOPS ENC[...] ciphertext */
+    encrypted: boolean;
+    /** Plaintext type recorded in the ciphertext (str, int, float, bool, bytes), or the YAML type of unencrypted leaves */
+    valueType?: string;
+}
+
+const ENCRYPTED_VALUE_PREFIX = 'ENC[';
+
+// Plaintext type stored at the end of a SOPS ciphertext, e.g. ENC[AES256_GCM,...,type:int]
+const ENCRYPTED_TYPE_REGEX = /,type:(\w+)\]$/;
+
+// Display key paths: a key followed by .key or [index] segments
+const KEY_PATH_REGEX = /^[^.[\]]+(\.[^.[\]]+|\[\d+\])*$/;
+const KEY_PATH_SEGMENT_REGEX = /([^.[\]]+)|\[(\d+)\]/g;
+
+/**
+ * Check whether key paths can be read from a file, based on its extension.
+ * Only YAML and JSON keep their structure when encrypted.
+ */
+export function supportsKeyPaths(filePath: string): boolean {
+    return ['.yaml', '.yml', '.json'].includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * List the values (leaves and branches) of an encrypted YAML or JSON document with their key paths.
+ * The sops metadata block is skipped. Returns an empty list if the content cannot be parsed.
+ */
+export function findKeyPaths(content: string, filePath: string): KeyPathEntry[] {
+    if (!supportsKeyPaths(filePath)) {
+        return [];
+    }
+
+    const doc = yaml.parseDocument(content);
+    if (doc.errors.length > 0) {
+        return [];
+    }
+
+    const entries: KeyPathEntry[] = [];
+    collectEntries(doc.contents, [], entries);
+    return entries;
+}
+
+/**
+ * Find the leaf value at a character offset
+ */
+export function findKeyPathAt(entries: KeyPathEntry[], offset: number): KeyPathEntry | undefined {
+    return entries.find((entry) => !entry.branch && offset >= entry.start && offset <= entry.end);
+}
+
+/**
+ * Parse a display key path such as db.hosts[0] (the inverse of formatKeyPath)
+ */
+export function parseKeyPath(value: string): SopsKeyPath | null {
+    const trimmed = value.trim();
+    if (!KEY_PATH_REGEX.test(trimmed)) {
+        return null;
+    }
+    return Array.from(
+        trimmed.matchAll(KEY_PATH_SEGMENT_REGEX),
+        (match) => match[2] !== undefined ? Number(match[2]) : match[1]
+    );
+}
+
+/**
+ * Format a key path as a SOPS --extract/set expression, e.g. ["db"]["hosts"][0]
+ */
+export function toSopsExpression(keyPath: SopsKeyPath): string {
+    return keyPath.map((segment) => `[${JSON.stringify(segment)}]`).join('');
+}
+
+/**
+ * Format a key path for display, e.g. db.hosts[0]
+ */
+export function formatKeyPath(keyPath: SopsKeyPath): string {
+    return keyPath.reduce<string>((result, segment) => {
+        if (typeof segment === 'number') {
+            return `${result}[${segment}]`;
+        }
+        return result ? `${result}.${segment}` : segment;
+    }, '');
+}
+
+function collectEntries(node: unknown, keyPath: SopsKeyPath, entries: KeyPathEntry[]): void {
+    if ((yaml.isMap(node) || yaml.isSeq(node)) && node.range && keyPath.length > 0) {
+        entries.push({ path: keyPath, start: node.range[0], end: node.range[1], branch: true, encrypted: false });
+    }
+
+    if (yaml.isMap(node)) {
+        for (const pair of node.items) {
+            const key = yaml.isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+            // The sops metadata block is not part of the secret data
+            if (keyPath.length === 0 && key === 'sops') {
+                continue;
+            }
+            collectEntries(pair.value, [...keyPath, key], entries);
+        }
+    } else if (yaml.isSeq(node)) {
+        node.items.forEach((item, index) => collectEntries(item, [...keyPath, index], entries));
+    } else if (yaml.isScalar(node) && node.range && keyPath.length > 0) {
+        const encrypted = typeof node.value === 'string' && node.value.startsWith(ENCRYPTED_VALUE_PREFIX);
+        entries.push({
+            path: keyPath,
+            start: node.range[0],
+            end: node.range[1],
+            branch: false,
+            encrypted,
+            valueType: encrypted
+                ? ENCRYPTED_TYPE_REGEX.exec(node.value as string)?.[1]
+                : getPlainValueType(node.value)
+        });
+    }
+}
+
+function getPlainValueType(value: unknown): string {
+    switch (typeof value) {
+        case 'number':
+            return Number.isInteger(value) ? 'int' : 'float';
+        case 'boolean':
+            return 'bool';
+        default:
+            return 'str';
+    }
+}
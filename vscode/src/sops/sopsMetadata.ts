@@ -0,0 +1,271 @@
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { SopsMetadata, SopsRecipient, SopsRecipientType } from '../types';
+
+type RawMetadata = Record<string, unknown>;
+
+// Separators SOPS uses when flattening metadata for INI and dotenv files
+const FLATTEN_TOKEN_REGEX = /__list_(\d+)|__map_(.+?)(?=__list_\d+|__map_|$)/g;
+
+/**
+ * Parse the sops metadata block of an encrypted file.
+ * Supports YAML, JSON, INI, dotenv and binary (JSON-wrapped) formats.
+ * Returns null if the content has no readable sops metadata.
+ */
+export function parseSopsMetadata(content: string, filePath: string): SopsMetadata | null {
+    const format = getMetadataFormat(filePath);
+
+    let raw: RawMetadata | null;
+    try {
+        switch (format) {
+            case 'yaml':
+                raw = asRecord(asRecord(yaml.parse(content))?.sops);
+                break;
+            case 'ini':
+                raw = unflatten(readIniSection(content, 'sops'));
+                break;
+            case 'dotenv':
+                raw = unflatten(readDotenvPrefixed(content, 'sops_'));
+                break;
+            case 'json':
+            case 'binary':
+            default:
+                raw = asRecord(asRecord(JSON.parse(content))?.sops);
+                break;
+        }
+    } catch {
+        return null;
+    }
+
+    if (!raw || Object.keys(raw).length === 0) {
+        return null;
+    }
+
+    return toMetadata(raw, format);
+}
+
+/**
+ * Get all recipients across every key group of a file
+ */
+export function getAllRecipients(metadata: SopsMetadata): SopsRecipient[] {
+    return metadata.keyGroups.flat();
+}
+
+function getMetadataFormat(filePath: string): SopsMetadata['format'] {
+    switch (path.extname(filePath).slice(1).toLowerCase()) {
+        case 'yaml':
+        case 'yml':
+            return 'yaml';
+        case 'json':
+            return 'json';
+        case 'ini':
+            return 'ini';
+        case 'env':
+            return 'dotenv';
+        default:
+            // Binary files are stored as JSON with "data" and "sops" keys
+            return 'binary';
+    }
+}
+
+function toMetadata(raw: RawMetadata, format: SopsMetadata['format']): SopsMetadata {
+    const rawGroups = Array.isArray(raw.key_groups) ? raw.key_groups : null;
+    const keyGroups = rawGroups
+        ? rawGroups.map((group) => readRecipients(asRecord(group) ?? {}))
+        : [readRecipients(raw)];
+
+    return {
+        format,
+        keyGroups,
+        usesKeyGroups: rawGroups !== null,
+        shamirThreshold: asNumber(raw.shamir_threshold),
+        lastModified: asString(raw.lastmodified),
+        mac: asString(raw.mac),
+        version: asString(raw.version),
+        encryptedRegex: asString(raw.encrypted_regex),
+        unencryptedRegex: asString(raw.unencrypted_regex),
+        encryptedSuffix: asString(raw.encrypted_suffix),
+        unencryptedSuffix: asString(raw.unencrypted_suffix),
+        encryptedCommentRegex: asString(raw.encrypted_comment_regex),
+        unencryptedCommentRegex: asString(raw.unencrypted_comment_regex),
+        macOnlyEncrypted: asBoolean(raw.mac_only_encrypted)
+    };
+}
+
+/**
+ * Read the master keys of one key group (or of the top-level metadata)
+ */
+function readRecipients(group: RawMetadata): SopsRecipient[] {
+    const recipients: SopsRecipient[] = [];
+
+    const add = (
+        type: SopsRecipientType,
+        entries: unknown,
+        getId: (entry: RawMetadata) => string | undefined,
+        detailKeys: string[] = []
+    ): void => {
+        for (const entry of asArray(entries)) {
+            const record = asRecord(entry);
+            const id = record ? getId(record) : undefined;
+            if (!record || !id) {
+                continue;
+            }
+
+            const details: Record<string, string> = {};
+            for (const key of detailKeys) {
+                const value = record[key];
+                if (value !== undefined && value !== null && value !== '') {
+                    details[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+                }
+            }
+
+            recipients.push({
+                type,
+                id,
+                createdAt: asString(record.created_at),
+                details: Object.keys(details).length > 0 ? details : undefined
+            });
+        }
+    };
+
+    add('age', group.age, (e) => asString(e.recipient));
+    add('pgp', group.pgp, (e) => asString(e.fp));
+    add('kms', group.kms, (e) => asString(e.arn), ['role', 'context', 'aws_profile']);
+    add('gcp_kms', group.gcp_kms, (e) => asString(e.resource_id));
+    add('azure_kv', group.azure_kv, (e) => {
+        const vaultUrl = asString(e.vault_url);
+        const name = asString(e.name);
+        if (!vaultUrl || !name) {
+            return undefined;
+        }
+        const version = asString(e.version);
+        return `${vaultUrl.replace(/\/+$/, '')}/keys/${name}${version ? `/${version}` : ''}`;
+    });
+    add('hc_vault_transit', group.hc_vault, (e) => {
+        const address = asString(e.vault_address);
+        const enginePath = asString(e.engine_path);
+        const keyName = asString(e.key_name);
+        if (!address || !enginePath || !keyName) {
+            return undefined;
+        }
+        return `${address.replace(/\/+$/, '')}/v1/${enginePath}/keys/${keyName}`;
+    });
+
+    return recipients;
+}
+
+/**
+ * Read key/value pairs from a section of an INI file
+ */
+function readIniSection(content: string, section: string): Record<string, string> {
+    const entries: Record<string, string> = {};
+    let inSection = false;
+
+    for (const line of content.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        const header = trimmed.match(/^\[(.+)\]$/);
+        if (header) {
+            inSection = header[1].trim() === section;
+            continue;
+        }
+        if (!inSection || trimmed === '' || trimmed.startsWith(';') || trimmed.startsWith('#')) {
+            continue;
+        }
+
+        const separator = trimmed.indexOf('=');
+        if (separator > 0) {
+            entries[trimmed.slice(0, separator).trim()] = unescapeValue(trimmed.slice(separator + 1).trim());
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Read dotenv variables with the given prefix, with the prefix stripped
+ */
+function readDotenvPrefixed(content: string, prefix: string): Record<string, string> {
+    const entries: Record<string, string> = {};
+
+    for (const line of content.split(/\r?\n/)) {
+        if (!line.startsWith(prefix)) {
+            continue;
+        }
+        const separator = line.indexOf('=');
+        if (separator > prefix.length) {
+            entries[line.slice(prefix.length, separator)] = unescapeValue(line.slice(separator + 1));
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Rebuild nested metadata from SOPS flattened keys,
+ * e.g. "age__list_0__map_recipient" -> { age: [{ recipient }] }
+ */
+function unflatten(entries: Record<string, string>): RawMetadata {
+    const root: RawMetadata = {};
+
+    for (const [key, value] of Object.entries(entries)) {
+        const firstSeparator = key.search(/__list_\d+|__map_/);
+        const head = firstSeparator === -1 ? key : key.slice(0, firstSeparator);
+        const segments: (string | number)[] = [head];
+
+        if (firstSeparator !== -1) {
+            for (const match of key.slice(firstSeparator).matchAll(FLATTEN_TOKEN_REGEX)) {
+                segments.push(match[1] !== undefined ? Number(match[1]) : match[2]);
+            }
+        }
+
+        let node: Record<string | number, unknown> = root;
+        segments.forEach((segment, index) => {
+            if (index === segments.length - 1) {
+                node[segment] = value;
+                return;
+            }
+            if (typeof node[segment] !== 'object' || node[segment] === null) {
+                node[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+            }
+            node = node[segment] as Record<string | number, unknown>;
+        });
+    }
+
+    return root;
+}
+
+function unescapeValue(value: string): string {
+    return value.replace(/\\n/g, '\n');
+}
+
+function asRecord(value: unknown): RawMetadata | null {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? value as RawMetadata
+        : null;
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function asNumber(value: unknown): number | undefined {
+    const num = typeof value === 'number' ? value : Number(asString(value));
+    return Number.isFinite(num) ? num : undefined;
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    return undefined;
+}
@@ -1,16 +1,51 @@
 import { spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
-import { SopsError, SopsErrorType } from '../types';
+import * as yaml from 'yaml';
+import { SopsError, SopsErrorType, SopsMetadata } from '../types';
 import { SettingsService } from '../services/settingsService';
+import { EnvironmentService } from '../services/environmentService';
+import { ConfigManager } from '../config/configManager';
+import { SopsDetector } from './sopsDetector';
+import { parseSopsMetadata } from './sopsMetadata';
+import { checkKeyAvailability, describeMissingKeys } from './keyAvailability';
+import { SopsKeyPath, toSopsExpression } from './sopsKeyPaths';
 import { logger } from '../services/loggerService';
 import { getErrorMessage } from '../utils/errorUtils';
+import { createEditTempPath, createTempPath, removeTempFile } from '../utils/tempFileUtils';
+
+/**
+ * Exit code used by `sops edit` when the editor left the file unchanged
+ */
+const SOPS_EXIT_FILE_NOT_MODIFIED = 200;
+
+/**
+ * Inline Node script used as the SOPS editor: copies the prepared plaintext
+ * (named by EDITOR_SOURCE_VARIABLE) over the temp file SOPS asks us to edit (the argument SOPS adds).
+ * The plaintext path goes through the environment so it never has to be quoted.
+ */
+const EDITOR_SOURCE_VARIABLE = 'SOPSIE_EDIT_SOURCE';
+const EDITOR_COPY_SCRIPT = `require("fs").copyFileSync(process.env.${EDITOR_SOURCE_VARIABLE}, process.argv[1])`;
+
+interface RunSopsOptions {
+    /** Extra environment variables for the SOPS process */
+    env?: Record<string, string>;
+    /** Exit codes treated as success (defaults to [0]) */
+    successCodes?: number[];
+    /** Content written to the SOPS process's stdin */
+    stdin?: string;
+}
 
 /**
  * Wrapper for SOPS CLI operations
  */
 export class SopsRunner {
-    constructor(private settingsService: SettingsService) {}
+    constructor(
+        private settingsService: SettingsService,
+        private sopsDetector: SopsDetector,
+        private configManager: ConfigManager,
+        private environmentService: EnvironmentService
+    ) {}
 
     private getWorkingDirectory(filePath: string): string {
         // SOPS looks for .sops.yaml from CWD and walks up the directory tree
@@ -25,6 +60,7 @@ export class SopsRunner {
         const ext = path.extname(filePath).slice(1);
         const fileType = this.getInputType(ext);
         logger.debug(`SopsRunner: Decrypting ${filePath} (type=${fileType})`);
+        await this.ensureKeyAvailable(filePath);
 
         // For known structured formats, let SOPS handle it naturally
         // For binary/unknown formats, explicitly specify the type
@@ -39,6 +75,55 @@ export class SopsRunner {
         return this.runSops(['--decrypt', filePath], filePath);
     }
 
+    /**
+     * Decrypt encrypted content that is not on disk, such as a blob read from git.
+     * Uses a temp file next to filePath so the format is detected from its extension.
+     */
+    async decryptContent(content: string, filePath: string): Promise<string> {
+        const tempFilePath = createTempPath(path.dirname(filePath), path.extname(filePath));
+        logger.debug(`SopsRunner: Decrypting content for ${filePath}`);
+
+        try {
+            fs.writeFileSync(tempFilePath, content, { encoding: 'utf8', mode: 0o600 });
+            return await this.decrypt(tempFilePath);
+        } finally {
+            removeTempFile(tempFilePath);
+        }
+    }
+
+    /**
+     * Decrypt a single value of a YAML/JSON file without decrypting the rest into an editor.
+     * Uses `--extract` with a key path expression such as ["db"]["password"].
+     * With asJson, maps, sequences and non-string leaves are emitted as JSON (strings stay raw).
+     */
+    async extractValue(filePath: string, keyPath: SopsKeyPath, asJson = false): Promise<string> {
+        const expression = toSopsExpression(keyPath);
+        logger.debug(`SopsRunner: Extracting ${expression} from ${filePath}`);
+        await this.ensureKeyAvailable(filePath);
+        const outputArgs = asJson ? ['--output-type', 'json'] : [];
+        return this.runSops(['--decrypt', ...outputArgs, '--extract', expression, filePath], filePath);
+    }
+
+    /**
+     * Set a single value in an encrypted file in place with `sops set` (SOPS 3.10+).
+     * The value must be JSON-encoded, e.g. a quoted string, a number or an object.
+     * It is passed on stdin, so it never shows up in the process list.
+     */
+    async setValue(filePath: string, keyPath: SopsKeyPath, jsonValue: string): Promise<void> {
+        const expression = toSopsExpression(keyPath);
+        logger.debug(`SopsRunner: Setting ${expression} in ${filePath}`);
+        await this.runSops(['set', '--value-stdin', filePath, expression], filePath, { stdin: jsonValue });
+    }
+
+    /**
+     * Remove a key from an encrypted file in place with `sops unset` (SOPS 3.9+).
+     */
+    async unsetValue(filePath: string, keyPath: SopsKeyPath): Promise<void> {
+        const expression = toSopsExpression(keyPath);
+        logger.debug(`SopsRunner: Unsetting ${expression} in ${filePath}`);
+        await this.runSops(['unset', filePath, expression], filePath);
+    }
+
     /**
      * Encrypt a file and return the encrypted content.
      * Automatically detects file type from extension.
@@ -70,14 +155,12 @@ export class SopsRunner {
      */
     async encryptContent(content: string, filePath: string): Promise<string> {
         const ext = path.extname(filePath);
-        const dir = path.dirname(filePath);
         const inputType = this.getInputType(ext.slice(1));
         logger.debug(`SopsRunner: Encrypting content for ${filePath} (type=${inputType})`);
 
         // Create a temp file in the same directory so .sops.yaml rules match
-        // Use same extension so SOPS auto-detects the format
-        const tempFileName = `.sopsie-temp-${Date.now()}-${Math.random().toString(36).slice(2)}${ext}`;
-        const tempFilePath = path.join(dir, tempFileName);
+        // Keep the file name (and extension) so SOPS auto-detects the format
+        const tempFilePath = createEditTempPath(filePath);
 
         try {
             // Write content to temp file
@@ -89,14 +172,108 @@ export class SopsRunner {
             return result;
         } finally {
             // Always clean up temp file
+            removeTempFile(tempFilePath);
+        }
+    }
+
+    /**
+     * Re-encrypt edited content for an existing encrypted file with minimal churn.
+     * Drives `sops edit` on a copy of the original so the existing data key is reused
+     * and values whose plaintext did not change keep their original ciphertext.
+     * Falls back to a full encryptContent() when the original is not SOPS-encrypted.
+     */
+    async editContent(content: string, filePath: string): Promise<string> {
+        let original: string;
+        try {
+            original = await fs.promises.readFile(filePath, 'utf8');
+        } catch (error) {
+            logger.debug(`SopsRunner: Cannot read ${filePath} for edit, doing full encrypt: ${getErrorMessage(error)}`);
+            return this.encryptContent(content, filePath);
+        }
+
+        if (!this.sopsDetector.isContentEncrypted(original)) {
+            logger.debug(`SopsRunner: ${filePath} is not encrypted on disk, doing full encrypt`);
+            return this.encryptContent(content, filePath);
+        }
+
+        // sops edit waits for a key press when the edited plaintext does not load
+        this.validatePlaintext(content, filePath);
+
+        const ext = path.extname(filePath);
+        const dir = path.dirname(filePath);
+        logger.debug(`SopsRunner: Re-encrypting content for ${filePath} via sops edit`);
+
+        // Encrypted copy that SOPS edits in place, and the plaintext our editor copies in
+        const encryptedTempPath = createTempPath(dir, ext);
+        const plaintextTempPath = createEditTempPath(filePath);
+
+        try {
+            fs.writeFileSync(encryptedTempPath, original, { encoding: 'utf8', mode: 0o600 });
+            fs.writeFileSync(plaintextTempPath, content, { encoding: 'utf8', mode: 0o600 });
+
+            const editor = [process.execPath, '-e', EDITOR_COPY_SCRIPT].map(quoteEditorArg).join(' ');
+            await this.runSops(['edit', encryptedTempPath], encryptedTempPath, {
+                env: {
+                    SOPS_EDITOR: editor,
+                    EDITOR: editor,
+                    [EDITOR_SOURCE_VARIABLE]: plaintextTempPath,
+                    // Lets the VS Code (Electron) binary behave as plain Node
+                    ELECTRON_RUN_AS_NODE: '1'
+                },
+                successCodes: [0, SOPS_EXIT_FILE_NOT_MODIFIED]
+            });
+
+            return fs.readFileSync(encryptedTempPath, 'utf8');
+        } finally {
+            removeTempFile(plaintextTempPath);
+            removeTempFile(encryptedTempPath);
+        }
+    }
+
+    /**
+     * Check that plaintext will load in sops before handing it to `sops edit`.
+     * Throws an InvalidFile error for syntax errors or a top-level sops key.
+     */
+    private validatePlaintext(content: string, filePath: string): void {
+        const fileType = this.getInputType(path.extname(filePath).slice(1));
+        let problem: string | undefined;
+
+        if (fileType === 'yaml') {
+            for (const doc of yaml.parseAllDocuments(content)) {
+                if (doc.errors.length > 0) {
+                    problem = doc.errors[0].message;
+                    break;
+                }
+                if (yaml.isMap(doc.contents) && doc.contents.has('sops')) {
+                    problem = 'The top-level key "sops" is reserved for sops metadata';
+                    break;
+                }
+            }
+        } else if (fileType === 'json') {
             try {
-                if (fs.existsSync(tempFilePath)) {
-                    fs.unlinkSync(tempFilePath);
+                const parsed: unknown = JSON.parse(content);
+                if (typeof parsed === 'object' && parsed !== null && 'sops' in parsed) {
+                    problem = 'The top-level key "sops" is reserved for sops metadata';
                 }
-            } catch (cleanupError) {
-                logger.debug(`Failed to clean up temp file: ${getErrorMessage(cleanupError)}`);
+            } catch (error) {
+                problem = getErrorMessage(error);
+            }
+        } else if (fileType === 'dotenv') {
+            const lineIndex = content.split(/\r?\n/)
+                .findIndex((line) => line.trim() !== '' && !line.trimStart().startsWith('#') && !line.includes('='));
+            if (lineIndex !== -1) {
+                problem = `Line ${lineIndex + 1} is not a KEY=value pair`;
             }
         }
+
+        if (problem) {
+            throw this.createError(
+                SopsErrorType.InvalidFile,
+                `Cannot encrypt ${path.basename(filePath)}: ${problem}`,
+                problem,
+                'Fix the syntax error and save again'
+            );
+        }
     }
 
     /**
@@ -145,6 +322,41 @@ export class SopsRunner {
         }
     }
 
+    /**
+     * Fail fast with an explanation when no key for the file is available locally,
+     * instead of waiting for sops to try (and possibly time out on) every key service
+     */
+    private async ensureKeyAvailable(filePath: string): Promise<void> {
+        if (!this.settingsService.shouldCheckKeysBeforeDecrypt()) {
+            return;
+        }
+
+        let metadata: SopsMetadata | null;
+        try {
+            metadata = parseSopsMetadata(await fs.promises.readFile(filePath, 'utf8'), filePath);
+        } catch (error) {
+            logger.debug(`SopsRunner: Cannot read ${filePath} to check keys: ${getErrorMessage(error)}`);
+            return;
+        }
+        if (!metadata) {
+            // Let sops report files without metadata
+            return;
+        }
+
+        const availability = await checkKeyAvailability(metadata, await this.environmentService.getProcessEnv(filePath));
+        if (availability.canDecrypt) {
+            return;
+        }
+
+        const { message, details } = describeMissingKeys(filePath, availability);
+        throw this.createError(
+            SopsErrorType.KeyAccessDenied,
+            message,
+            details,
+            'Add one of these keys, or set its location with sopsie.env'
+        );
+    }
+
     private getInputType(ext: string): string {
         switch (ext.toLowerCase()) {
             case 'json':
@@ -162,11 +374,21 @@ export class SopsRunner {
         }
     }
 
-    private async runSops(args: string[], filePath: string): Promise<string> {
+    private async runSops(
+        args: string[],
+        filePath: string,
+        options: RunSopsOptions = {}
+    ): Promise<string> {
         const sopsPath = this.settingsService.getSopsPath();
         const timeout = this.settingsService.getTimeout();
         const cwd = this.getWorkingDirectory(filePath);
-        return this.runCommand(sopsPath, args, cwd, '', timeout);
+
+        // Use the same config file for encryption as for rule matching
+        const configPath = this.configManager.getExplicitConfigPath(filePath);
+        const configArgs = configPath ? ['--config', configPath] : [];
+        const baseEnv = await this.environmentService.getProcessEnv(filePath);
+
+        return this.runCommand(sopsPath, [...configArgs, ...args], cwd, options.stdin ?? '', timeout, options, baseEnv);
     }
 
     private runCommand(
@@ -174,11 +396,14 @@ export class SopsRunner {
         args: string[],
         cwd: string,
         stdin: string,
-        timeout: number
+        timeout: number,
+        options: RunSopsOptions = {},
+        baseEnv: NodeJS.ProcessEnv = process.env
     ): Promise<string> {
+        const successCodes = options.successCodes ?? [0];
         return new Promise((resolve, reject) => {
             // Disable SOPS version check to suppress deprecation warning
-            const env = { ...process.env, SOPS_DISABLE_VERSION_CHECK: '1' };
+            const env = { ...baseEnv, ...options.env, SOPS_DISABLE_VERSION_CHECK: '1' };
             const proc = spawn(cmd, args, { cwd, env });
             let isSettled = false;
 
@@ -214,16 +439,14 @@ export class SopsRunner {
                 stderr += data.toString();
             });
 
-            if (stdin) {
-                proc.stdin.write(stdin);
-                proc.stdin.end();
-            }
+            // Always close stdin: on errors `sops edit` waits for a key press
+            proc.stdin.end(stdin);
 
             proc.on('close', (code: number | null) => {
                 clearTimeout(timer);
                 if (!isSettled) {
                     isSettled = true;
-                    if (code === 0) {
+                    if (code !== null && successCodes.includes(code)) {
                         resolve(stdout);
                     } else {
                         reject(this.parseError(stderr, code));
@@ -318,3 +541,12 @@ export class SopsRunner {
         };
     }
 }
+
+/**
+ * Quote an argument of the editor command, which SOPS splits shell-style.
+ * Single quotes keep Windows backslashes intact; a quote inside ends the quoting,
+ * adds an escaped quote and starts quoting again.
+ */
+function quoteEditorArg(value: string): string {
+    return `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -5,21 +5,33 @@ import * as vscode from 'vscode';
  * Files are marked as decrypted when they've been decrypted in-place
  * and need to be re-encrypted on save.
  */
-export class FileStateTracker {
+export class FileStateTracker implements vscode.Disposable {
     private decryptedFiles = new Set<string>();
+    private _onDidChangeState = new vscode.EventEmitter<vscode.Uri | undefined>();
+
+    /**
+     * Event fired when a file's tracked state changes (undefined when all files are cleared)
+     */
+    readonly onDidChangeState = this._onDidChangeState.event;
 
     /**
      * Mark a file as decrypted
      */
     markDecrypted(uri: vscode.Uri): void {
-        this.decryptedFiles.add(uri.toString());
+        const key = uri.toString();
+        if (!this.decryptedFiles.has(key)) {
+            this.decryptedFiles.add(key);
+            this._onDidChangeState.fire(uri);
+        }
     }
 
     /**
      * Mark a file as encrypted (remove from decrypted set)
      */
     markEncrypted(uri: vscode.Uri): void {
-        this.decryptedFiles.delete(uri.toString());
+        if (this.decryptedFiles.delete(uri.toString())) {
+            this._onDidChangeState.fire(uri);
+        }
     }
 
     /**
@@ -29,11 +41,20 @@ export class FileStateTracker {
         return this.decryptedFiles.has(uri.toString());
     }
 
+    /**
+     * Get URIs of all files currently marked as decrypted
+     */
+    getDecryptedFiles(): vscode.Uri[] {
+        return Array.from(this.decryptedFiles, (key) => vscode.Uri.parse(key));
+    }
+
     /**
      * Clear tracking for a specific file
      */
     clearFile(uri: vscode.Uri): void {
-        this.decryptedFiles.delete(uri.toString());
+        if (this.decryptedFiles.delete(uri.toString())) {
+            this._onDidChangeState.fire(uri);
+        }
     }
 
     /**
@@ -41,5 +62,11 @@ export class FileStateTracker {
      */
     clear(): void {
         this.decryptedFiles.clear();
+        this._onDidChangeState.fire(undefined);
+    }
+
+    dispose(): void {
+        this._onDidChangeState.dispose();
+        this.decryptedFiles.clear();
     }
 }
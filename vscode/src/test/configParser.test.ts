@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { parseConfig } from '../config/configParser';
+
+const AGE_RECIPIENT = 'age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p';
+
+suite('configParser', () => {
+    test('reads creation rules with comma-separated and list-form keys', () => {
+        const config = parseConfig([
+            'creation_rules:',
+            '  - path_regex: secrets/.*\\.yaml$',
+            `    age: ${AGE_RECIPIENT}, age1second`,
+            '    encrypted_regex: ^(data|stringData)$',
+            '  - filename_regex: \\.env$',
+            '    pgp:',
+            '      - FBC7B9E2A4F9289AC0C1D4843D16CEE4A27381B4'
+        ].join('\n'));
+
+        assert.strictEqual(config.creation_rules.length, 2);
+        assert.strictEqual(config.creation_rules[0].path_regex, 'secrets/.*\\.yaml$');
+        assert.deepStrictEqual(config.creation_rules[0].age, [AGE_RECIPIENT, 'age1second']);
+        assert.strictEqual(config.creation_rules[0].encrypted_regex, '^(data|stringData)$');
+        assert.strictEqual(config.creation_rules[1].filename_regex, '\\.env$');
+        assert.deepStrictEqual(config.creation_rules[1].pgp, ['FBC7B9E2A4F9289AC0C1D4843D16CEE4A27381B4']);
+    });
+
+    test('reads key groups with nested merge groups', () => {
+        const config = parseConfig([
+            'creation_rules:',
+            '  - shamir_threshold: 1',
+            '    key_groups:',
+            '      - kms:',
+            '          - arn: arn:aws:kms:us-east-1:123456789012:key/abc',
+            '            role: arn:aws:iam::123456789012:role/sops',
+            '        merge:',
+            `          - age: [${AGE_RECIPIENT}]`
+        ].join('\n'));
+
+        const [group] = config.creation_rules[0].key_groups ?? [];
+        assert.strictEqual(config.creation_rules[0].shamir_threshold, 1);
+        assert.strictEqual(group.kms?.[0].arn, 'arn:aws:kms:us-east-1:123456789012:key/abc');
+        assert.strictEqual(group.kms?.[0].role, 'arn:aws:iam::123456789012:role/sops');
+        assert.deepStrictEqual(group.merge?.[0].age, [AGE_RECIPIENT]);
+    });
+
+    test('keeps Go-only path regexes instead of failing the file', () => {
+        const config = parseConfig('creation_rules:\n  - path_regex: (?U)secrets/.+\n');
+        assert.strictEqual(config.creation_rules[0].path_regex, '(?U)secrets/.+');
+    });
+
+    test('fails on missing creation_rules and wrong value types', () => {
+        assert.throws(() => parseConfig('stores: {}\n'), /creation_rules/);
+        assert.throws(() => parseConfig('creation_rules: {}\n'), /must be an array/);
+        assert.throws(() => parseConfig('creation_rules:\n  - shamir_threshold: -1\n'), /non-negative integer/);
+        assert.throws(() => parseConfig('creation_rules:\n  - path_regex: [a]\n'), /creation_rules\[0\]\.path_regex/);
+    });
+
+    test('ignores unknown keys', () => {
+        const config = parseConfig('creation_rules:\n  - path_regex: a\n    azure_kv: https://vault\n');
+        assert.strictEqual(config.creation_rules[0].azure_keyvault, undefined);
+    });
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { ConfigProblem, validateConfig } from '../config/configValidator';
+
+const AGE_RECIPIENT = 'age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p';
+
+function problemsOf(lines: string[]): Pick<ConfigProblem, 'message' | 'severity'>[] {
+    return validateConfig(lines.join('\n')).map(({ message, severity }) => ({ message, severity }));
+}
+
+suite('configValidator', () => {
+    test('accepts a valid config', () => {
+        assert.deepStrictEqual(problemsOf([
+            'creation_rules:',
+            '  - path_regex: (?i)secrets/.*\\.yaml$',
+            `    age: ${AGE_RECIPIENT}`
+        ]), []);
+    });
+
+    test('reports problems at their position', () => {
+        const content = `creation_rules:\n  - path_regex: a\n    age: ${AGE_RECIPIENT}\n    azure_kv: x\n`;
+        const [problem] = validateConfig(content);
+        assert.strictEqual(content.slice(problem.start, problem.end), 'azure_kv');
+        assert.match(problem.message, /azure_kv/);
+    });
+
+    test('warns about path regexes JavaScript cannot compile', () => {
+        const [problem] = problemsOf(['creation_rules:', '  - path_regex: (?U)a+', `    age: ${AGE_RECIPIENT}`]);
+        assert.strictEqual(problem.severity, 'warning');
+        assert.match(problem.message, /ignores this rule/);
+    });
+
+    test('warns about RE2-incompatible syntax', () => {
+        const [problem] = problemsOf(['creation_rules:', '  - path_regex: ^(?!public/)', `    age: ${AGE_RECIPIENT}`]);
+        assert.strictEqual(problem.severity, 'warning');
+        assert.match(problem.message, /lookaround/);
+    });
+
+    test('reports malformed age recipients', () => {
+        const problems = problemsOf(['creation_rules:', '  - path_regex: a', '    age: age1nope']);
+        assert.strictEqual(problems.length, 1);
+        assert.match(problems[0].message, /age1nope/);
+    });
+
+    test('reports rules shadowed by a catch-all rule', () => {
+        const problems = problemsOf([
+            'creation_rules:',
+            `  - age: ${AGE_RECIPIENT}`,
+            '  - path_regex: secrets/',
+            `    age: ${AGE_RECIPIENT}`
+        ]);
+        assert.strictEqual(problems.length, 1);
+        assert.match(problems[0].message, /^Unreachable rule: creation_rules\[0\]/);
+    });
+
+    test('reports conflicting encryption scope options', () => {
+        const problems = problemsOf([
+            'creation_rules:',
+            '  - path_regex: a',
+            `    age: ${AGE_RECIPIENT}`,
+            '    encrypted_regex: ^data$',
+            '    unencrypted_suffix: _plain'
+        ]);
+        assert.strictEqual(problems.length, 1);
+        assert.strictEqual(problems[0].severity, 'error');
+        assert.match(problems[0].message, /Only one of/);
+    });
+
+    test('reports YAML syntax errors', () => {
+        const [problem] = validateConfig('creation_rules:\n  - path_regex: [a\n');
+        assert.strictEqual(problem.severity, 'error');
+    });
+});
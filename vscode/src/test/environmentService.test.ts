@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { parseEnvFile } from '../services/environmentService';
+
+suite('environmentService', () => {
+    test('parseEnvFile reads plain, exported and quoted values', () => {
+        assert.deepStrictEqual(parseEnvFile([
+            '# sops keys',
+            'SOPS_AGE_KEY_FILE=/home/me/keys.txt',
+            'export AWS_PROFILE = prod # inline comment',
+            "VAULT_TOKEN='s.abc#not-a-comment'",
+            'MULTILINE="line one\\nline \\"two\\""',
+            '',
+            'not a variable',
+            'EMPTY='
+        ].join('\r\n')), {
+            SOPS_AGE_KEY_FILE: '/home/me/keys.txt',
+            AWS_PROFILE: 'prod',
+            VAULT_TOKEN: 's.abc#not-a-comment',
+            MULTILINE: 'line one\nline "two"',
+            EMPTY: ''
+        });
+    });
+
+    test('parseEnvFile keeps # inside unquoted values', () => {
+        assert.deepStrictEqual(parseEnvFile('GNUPGHOME=/tmp/gpg#1'), { GNUPGHOME: '/tmp/gpg#1' });
+    });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { checkKeyAvailability } from '../sops/keyAvailability';
+import { SopsMetadata, SopsRecipient } from '../types';
+
+// X25519 key pair from RFC 7748 section 6.1, bech32-encoded as an age identity and recipient
+const AGE_IDENTITY = 'AGE-SECRET-KEY-1WURK6ZNNRZJH60QKC9E9RVNXGH05CTU8A0QFJ243WLA628DE9S4QRFH26J';
+const AGE_RECIPIENT = 'age1s5s0qzvfxzn4gayt0hwtg0hhtgxm7wsdycup4a8t5j5ca25mfe4qt4hs7q';
+const OTHER_RECIPIENT = 'age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p';
+
+// Keep the default keys.txt of the machine running the tests out of the checks
+const ENV = { XDG_CONFIG_HOME: path.join(os.tmpdir(), 'sopsie-test-no-config'), APPDATA: path.join(os.tmpdir(), 'sopsie-test-no-config') };
+
+function metadataWith(...groups: SopsRecipient[][]): SopsMetadata {
+    return { format: 'yaml', keyGroups: groups, usesKeyGroups: groups.length > 1 };
+}
+
+suite('keyAvailability', () => {
+    test('derives the recipient of an age identity', async () => {
+        const availability = await checkKeyAvailability(
+            metadataWith([{ type: 'age', id: AGE_RECIPIENT }, { type: 'age', id: OTHER_RECIPIENT }]),
+            { ...ENV, SOPS_AGE_KEY: `# created: 2024-01-01\n${AGE_IDENTITY}\n` }
+        );
+        assert.strictEqual(availability.canDecrypt, true);
+        assert.deepStrictEqual(availability.groups[0].map((entry) => entry.status), ['available', 'missing']);
+    });
+
+    test('accepts lowercase identities and ignores malformed ones', async () => {
+        const lowercase = await checkKeyAvailability(metadataWith([{ type: 'age', id: AGE_RECIPIENT }]), {
+            ...ENV,
+            SOPS_AGE_KEY: AGE_IDENTITY.toLowerCase().replace('age-secret-key-1', 'AGE-SECRET-KEY-1')
+        });
+        assert.strictEqual(lowercase.canDecrypt, true);
+
+        const corrupted = await checkKeyAvailability(metadataWith([{ type: 'age', id: AGE_RECIPIENT }]), {
+            ...ENV,
+            SOPS_AGE_KEY: `${AGE_IDENTITY.slice(0, -1)}Q`
+        });
+        assert.strictEqual(corrupted.canDecrypt, false);
+    });
+
+    test('needs the Shamir threshold of key groups', async () => {
+        const groups = [[{ type: 'age', id: AGE_RECIPIENT }], [{ type: 'age', id: OTHER_RECIPIENT }]] as SopsRecipient[][];
+        const env = { ...ENV, SOPS_AGE_KEY: AGE_IDENTITY };
+
+        assert.strictEqual((await checkKeyAvailability(metadataWith(...groups), env)).canDecrypt, false);
+        assert.strictEqual((await checkKeyAvailability({ ...metadataWith(...groups), shamirThreshold: 1 }, env)).canDecrypt, true);
+    });
+
+    test('leaves cloud keys and plugin identities to sops', async () => {
+        const availability = await checkKeyAvailability(
+            metadataWith([
+                { type: 'gcp_kms', id: 'projects/p/locations/global/keyRings/r/cryptoKeys/k' },
+                { type: 'age', id: OTHER_RECIPIENT }
+            ]),
+            { ...ENV, SOPS_AGE_KEY_CMD: 'get-age-key' }
+        );
+        assert.strictEqual(availability.canDecrypt, true);
+        assert.deepStrictEqual(availability.groups[0].map((entry) => entry.status), ['unverified', 'unverified']);
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { describeRecipientDrift, findRecipientDrift, getRuleRecipientGroups } from '../config/ruleRecipients';
+import { SopsMetadata, SopsRecipient } from '../types';
+
+const AGE_A = 'age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p';
+const AGE_B = 'age1s5s0qzvfxzn4gayt0hwtg0hhtgxm7wsdycup4a8t5j5ca25mfe4qt4hs7q';
+
+function metadataWith(...groups: SopsRecipient[][]): SopsMetadata {
+    return { format: 'yaml', keyGroups: groups, usesKeyGroups: groups.length > 1 };
+}
+
+suite('ruleRecipients', () => {
+    test('reads top-level keys and key groups of a rule', () => {
+        assert.deepStrictEqual(getRuleRecipientGroups({
+            age: [AGE_A],
+            kms: ['arn:aws:kms:us-east-1:123456789012:key/abc+arn:aws:iam::123456789012:role/sops']
+        }), [[
+            { type: 'age', id: AGE_A },
+            { type: 'kms', id: 'arn:aws:kms:us-east-1:123456789012:key/abc' }
+        ]]);
+
+        assert.deepStrictEqual(getRuleRecipientGroups({
+            key_groups: [
+                { age: [AGE_A], merge: [{ pgp: ['FBC7B9E2'] }] },
+                { azure_keyvault: [{ vaultUrl: 'https://vault.example.net', key: 'sops', version: '' }] }
+            ]
+        }), [
+            [{ type: 'age', id: AGE_A }, { type: 'pgp', id: 'FBC7B9E2' }],
+            [{ type: 'azure_kv', id: 'https://vault.example.net/keys/sops' }]
+        ]);
+    });
+
+    test('reports missing and extra recipients', () => {
+        const drift = findRecipientDrift(metadataWith([{ type: 'age', id: AGE_A }]), { age: [AGE_B] });
+        assert.deepStrictEqual(drift, {
+            missing: [{ type: 'age', id: AGE_B }],
+            extra: [{ type: 'age', id: AGE_A }]
+        });
+        assert.strictEqual(describeRecipientDrift(drift!), `missing age ${AGE_B}; no longer in rule age ${AGE_A}`);
+    });
+
+    test('normalizes PGP fingerprints and Azure key versions', () => {
+        const metadata = metadataWith([
+            { type: 'pgp', id: 'FBC7B9E2A4F9289A' },
+            { type: 'azure_kv', id: 'https://vault.example.net/keys/sops/0123' }
+        ]);
+        assert.strictEqual(findRecipientDrift(metadata, {
+            pgp: ['fbc7 b9e2 a4f9 289a'],
+            azure_keyvault: ['https://Vault.example.net/keys/sops']
+        }), null);
+    });
+
+    test('skips rules without keys', () => {
+        assert.strictEqual(findRecipientDrift(metadataWith([{ type: 'age', id: AGE_A }]), { path_regex: 'a' }), null);
+    });
+});
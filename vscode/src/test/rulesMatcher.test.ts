@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { getRuleDirectory, isCatchAllRule, isIgnoredFile, isStructuredFile, RulesMatcher } from '../config/rulesMatcher';
+import { SopsConfig } from '../types';
+
+const CONFIG_DIR = path.resolve('/repo');
+
+function matcherFor(config: SopsConfig): RulesMatcher {
+    return new RulesMatcher(config, CONFIG_DIR);
+}
+
+suite('rulesMatcher', () => {
+    test('uses the first matching rule', () => {
+        const matcher = matcherFor({
+            creation_rules: [
+                { path_regex: '^secrets/prod/' },
+                { path_regex: '^secrets/' },
+                { filename_regex: '\\.env$' }
+            ]
+        });
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'secrets/prod/db.yaml')), 0);
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'secrets/dev/db.yaml')), 1);
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'app/.env')), 2);
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'app/config.yaml')), -1);
+        assert.deepStrictEqual(matcher.findMatchingRuleIndicesForPath(path.join(CONFIG_DIR, 'secrets/prod/.env')), [0, 1, 2]);
+    });
+
+    test('matches filename_regex against the file name only', () => {
+        const matcher = matcherFor({ creation_rules: [{ filename_regex: '^secrets' }] });
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'secrets.yaml')), 0);
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'secrets/app.yaml')), -1);
+    });
+
+    test('matches files outside the config directory by absolute path', () => {
+        const matcher = matcherFor({ creation_rules: [{ path_regex: '/shared/.*\\.yaml$' }] });
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.resolve('/shared/app.yaml')), 0);
+    });
+
+    test('translates Go flags and skips patterns JavaScript cannot compile', () => {
+        const matcher = matcherFor({ creation_rules: [{ path_regex: '(?U)a+' }, { path_regex: '(?i)^secrets/' }] });
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'SECRETS/a.yaml')), 1);
+    });
+
+    test('treats rules without path_regex or filename_regex as catch-all', () => {
+        const matcher = matcherFor({ creation_rules: [{ age: ['age1example'] }] });
+        assert.strictEqual(matcher.findMatchingRuleIndexForPath(path.join(CONFIG_DIR, 'anything.txt')), 0);
+        assert.strictEqual(isCatchAllRule({ age: ['age1example'] }), true);
+        assert.strictEqual(isCatchAllRule({ filename_regex: '\\.env$' }), false);
+    });
+
+    test('getRuleDirectory returns the literal directory prefix of anchored path regexes', () => {
+        assert.strictEqual(getRuleDirectory({ path_regex: '^secrets/.*\\.yaml$' }), 'secrets/');
+        assert.strictEqual(getRuleDirectory({ path_regex: '^deploy/prod/values\\.yaml$' }), 'deploy/prod/');
+        assert.strictEqual(getRuleDirectory({ path_regex: '^config\\.d/keys/' }), 'config.d/keys/');
+        // A quantifier makes the last character optional, so only whole directories before it count
+        assert.strictEqual(getRuleDirectory({ path_regex: '^secrets/a?/' }), 'secrets/');
+        assert.strictEqual(getRuleDirectory({ path_regex: 'secrets/.*' }), '');
+        assert.strictEqual(getRuleDirectory({ path_regex: '^(a|b)/' }), '');
+        assert.strictEqual(getRuleDirectory({ path_regex: '^../shared/' }), '');
+        assert.strictEqual(getRuleDirectory({ filename_regex: '^secrets/' }), '');
+    });
+
+    test('classifies ignored and structured files', () => {
+        assert.strictEqual(isIgnoredFile('/repo/.sops.yaml'), true);
+        assert.strictEqual(isIgnoredFile('/repo/.sopsie-temp-abc.yaml'), true);
+        assert.strictEqual(isIgnoredFile('/repo/secrets.yaml'), false);
+        assert.strictEqual(isStructuredFile('/repo/app.YML'), true);
+        assert.strictEqual(isStructuredFile('/repo/.env'), true);
+        assert.strictEqual(isStructuredFile('/repo/key.pem'), false);
+    });
+});
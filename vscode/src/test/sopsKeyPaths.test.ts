@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import {
+    findKeyPathAt,
+    findKeyPaths,
+    formatKeyPath,
+    parseKeyPath,
+    supportsKeyPaths,
+    toSopsExpression
+} from '../sops/sopsKeyPaths';
+
+const CONTENT = [
+    'db:',
+    '    password: ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:str]',
+    '    port: ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:int]',
+    '    hosts:',
+    '        - primary.internal',
+    'sops:',
+    '    version: 3.9.0'
+].join('\n');
+
+suite('sopsKeyPaths', () => {
+    test('lists leaves and branches with their types, skipping the sops block', () => {
+        const entries = findKeyPaths(CONTENT, 'secrets.yaml');
+        assert.deepStrictEqual(entries.map((entry) => [formatKeyPath(entry.path), entry.branch, entry.encrypted, entry.valueType]), [
+            ['db', true, false, undefined],
+            ['db.password', false, true, 'str'],
+            ['db.port', false, true, 'int'],
+            ['db.hosts', true, false, undefined],
+            ['db.hosts[0]', false, false, 'str']
+        ]);
+    });
+
+    test('finds the leaf at an offset', () => {
+        const entries = findKeyPaths(CONTENT, 'secrets.yaml');
+        const entry = findKeyPathAt(entries, CONTENT.indexOf('type:int'));
+        assert.deepStrictEqual(entry?.path, ['db', 'port']);
+        assert.strictEqual(findKeyPathAt(entries, 0), undefined);
+    });
+
+    test('only reads YAML and JSON files', () => {
+        assert.strictEqual(supportsKeyPaths('a.json'), true);
+        assert.strictEqual(supportsKeyPaths('a.YML'), true);
+        assert.strictEqual(supportsKeyPaths('.env'), false);
+        assert.deepStrictEqual(findKeyPaths('A=ENC[AES256_GCM,data:abc,type:str]', '.env'), []);
+        assert.deepStrictEqual(findKeyPaths('a: [', 'broken.yaml'), []);
+    });
+
+    test('converts between display paths and sops expressions', () => {
+        assert.deepStrictEqual(parseKeyPath(' db.hosts[0] '), ['db', 'hosts', 0]);
+        assert.strictEqual(parseKeyPath('db..hosts'), null);
+        assert.strictEqual(formatKeyPath(['db', 'hosts', 0]), 'db.hosts[0]');
+        assert.strictEqual(toSopsExpression(['db', 'hosts', 0]), '["db"]["hosts"][0]');
+        assert.strictEqual(toSopsExpression(['a"b']), '["a\\"b"]');
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { getAllRecipients, parseSopsMetadata } from '../sops/sopsMetadata';
+
+const AGE_RECIPIENT = 'age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p';
+const KMS_ARN = 'arn:aws:kms:us-east-1:123456789012:key/abc';
+
+suite('sopsMetadata', () => {
+    test('reads YAML metadata', () => {
+        const metadata = parseSopsMetadata([
+            'password: ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:str]',
+            'sops:',
+            '    kms:',
+            `        - arn: ${KMS_ARN}`,
+            '          role: arn:aws:iam::123456789012:role/sops',
+            '          created_at: "2024-01-01T00:00:00Z"',
+            '    age:',
+            `        - recipient: ${AGE_RECIPIENT}`,
+            '          enc: |',
+            '            -----BEGIN AGE ENCRYPTED FILE-----',
+            '    lastmodified: "2024-01-02T00:00:00Z"',
+            '    mac: ENC[AES256_GCM,data:mac,type:str]',
+            '    encrypted_regex: ^password$',
+            '    version: 3.9.0'
+        ].join('\n'), 'secrets.yaml');
+
+        assert.ok(metadata);
+        assert.strictEqual(metadata.format, 'yaml');
+        assert.strictEqual(metadata.usesKeyGroups, false);
+        assert.strictEqual(metadata.version, '3.9.0');
+        assert.strictEqual(metadata.encryptedRegex, '^password$');
+        assert.deepStrictEqual(getAllRecipients(metadata).map((r) => [r.type, r.id]), [
+            ['age', AGE_RECIPIENT],
+            ['kms', KMS_ARN]
+        ]);
+        assert.deepStrictEqual(metadata.keyGroups[0][1].details, { role: 'arn:aws:iam::123456789012:role/sops' });
+    });
+
+    test('reads key groups from JSON and binary files', () => {
+        const content = JSON.stringify({
+            data: 'ENC[AES256_GCM,data:abc,type:str]',
+            sops: {
+                shamir_threshold: 2,
+                key_groups: [
+                    { age: [{ recipient: AGE_RECIPIENT }] },
+                    { azure_kv: [{ vault_url: 'https://vault.example.net/', name: 'sops', version: '123' }] }
+                ]
+            }
+        });
+
+        for (const filePath of ['secrets.json', 'secrets.bin']) {
+            const metadata = parseSopsMetadata(content, filePath);
+            assert.ok(metadata);
+            assert.strictEqual(metadata.usesKeyGroups, true);
+            assert.strictEqual(metadata.shamirThreshold, 2);
+            assert.deepStrictEqual(metadata.keyGroups.map((group) => group.map((r) => r.id)), [
+                [AGE_RECIPIENT],
+                ['https://vault.example.net/keys/sops/123']
+            ]);
+        }
+    });
+
+    test('reads flattened INI and dotenv metadata', () => {
+        const ini = parseSopsMetadata([
+            '[app]',
+            'password = ENC[AES256_GCM,data:abc,type:str]',
+            '[sops]',
+            `age__list_0__map_recipient = ${AGE_RECIPIENT}`,
+            'version = 3.9.0'
+        ].join('\n'), 'app.ini');
+        assert.strictEqual(ini?.format, 'ini');
+        assert.deepStrictEqual(ini?.keyGroups, [[{ type: 'age', id: AGE_RECIPIENT, createdAt: undefined, details: undefined }]]);
+
+        const dotenv = parseSopsMetadata([
+            'PASSWORD=ENC[AES256_GCM,data:abc,type:str]',
+            'sops_pgp__list_0__map_fp=FBC7B9E2A4F9289AC0C1D4843D16CEE4A27381B4',
+            'sops_version=3.9.0'
+        ].join('\n'), 'app.env');
+        assert.strictEqual(dotenv?.format, 'dotenv');
+        assert.deepStrictEqual(dotenv && getAllRecipients(dotenv).map((r) => r.id), ['FBC7B9E2A4F9289AC0C1D4843D16CEE4A27381B4']);
+    });
+
+    test('returns null without sops metadata', () => {
+        assert.strictEqual(parseSopsMetadata('password: hunter2\n', 'plain.yaml'), null);
+        assert.strictEqual(parseSopsMetadata('{not json', 'broken.json'), null);
+        assert.strictEqual(parseSopsMetadata('PASSWORD=hunter2\n', 'app.env'), null);
+    });
+});
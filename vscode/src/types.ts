@@ -1,14 +1,15 @@
 /**
  * Key group for Shamir secret sharing in SOPS
- * (internal type - used by SopsCreationRule)
  */
-interface KeyGroup {
+export interface KeyGroup {
     age?: string[];
     pgp?: string[];
     kms?: KmsKey[];
     gcp_kms?: GcpKmsKey[];
-    azure_kv?: AzureKvKey[];
-    hc_vault_transit?: string[];
+    azure_keyvault?: AzureKeyVaultKey[];
+    hc_vault?: string[];
+    /** Nested key groups whose keys are merged into this group */
+    merge?: KeyGroup[];
 }
 
 interface KmsKey {
@@ -22,36 +23,120 @@ interface GcpKmsKey {
     resource_id: string;
 }
 
-interface AzureKvKey {
+interface AzureKeyVaultKey {
     vaultUrl: string;
     key: string;
     version: string;
 }
 
 /**
- * A single creation rule from .sops.yaml
+ * A single creation rule from .sops.yaml.
+ * Master key fields may be written as comma-separated strings or lists; both are parsed into lists.
  */
 export interface SopsCreationRule {
     path_regex?: string;
     filename_regex?: string;
     encrypted_regex?: string;
+    unencrypted_regex?: string;
+    encrypted_comment_regex?: string;
+    unencrypted_comment_regex?: string;
     encrypted_suffix?: string;
     unencrypted_suffix?: string;
-    age?: string;
-    pgp?: string;
-    kms?: string;
-    gcp_kms?: string;
-    azure_kv?: string;
-    hc_vault_transit?: string;
+    mac_only_encrypted?: boolean;
+    age?: string[];
+    pgp?: string[];
+    /** KMS key ARNs, optionally followed by "+<role ARN>" */
+    kms?: string[];
+    aws_profile?: string;
+    gcp_kms?: string[];
+    azure_keyvault?: string[];
+    hc_vault_transit_uri?: string[];
     key_groups?: KeyGroup[];
     shamir_threshold?: number;
 }
 
+/**
+ * A destination rule from .sops.yaml, used by `sops publish`
+ */
+export interface SopsDestinationRule {
+    path_regex?: string;
+    s3_bucket?: string;
+    s3_prefix?: string;
+    gcs_bucket?: string;
+    gcs_prefix?: string;
+    vault_path?: string;
+    vault_address?: string;
+    vault_kv_mount_name?: string;
+    vault_kv_version?: number;
+    /** Creation rule used to re-encrypt files before publishing */
+    recreation_rule?: SopsCreationRule;
+    omit_extensions?: boolean;
+}
+
+/**
+ * Output settings of a single store (file format)
+ */
+export interface SopsStoreConfig {
+    indent?: number;
+}
+
+/**
+ * Per-format store settings from the top-level stores section of .sops.yaml
+ */
+export interface SopsStoresConfig {
+    yaml?: SopsStoreConfig;
+    json?: SopsStoreConfig;
+    json_binary?: SopsStoreConfig;
+    ini?: SopsStoreConfig;
+    dotenv?: SopsStoreConfig;
+}
+
 /**
  * Parsed .sops.yaml configuration
  */
 export interface SopsConfig {
     creation_rules: SopsCreationRule[];
+    destination_rules?: SopsDestinationRule[];
+    stores?: SopsStoresConfig;
+}
+
+/**
+ * Master key types that can be recorded in a file's sops metadata
+ */
+export type SopsRecipientType = 'age' | 'pgp' | 'kms' | 'gcp_kms' | 'azure_kv' | 'hc_vault_transit';
+
+/**
+ * A master key (recipient) that can decrypt a file's data key
+ */
+export interface SopsRecipient {
+    type: SopsRecipientType;
+    /** Identifier in the same form used by .sops.yaml (age recipient, PGP fingerprint, ARN, URL, ...) */
+    id: string;
+    createdAt?: string;
+    /** Extra key attributes such as KMS role, encryption context or AWS profile */
+    details?: Record<string, string>;
+}
+
+/**
+ * Parsed sops metadata block of an encrypted file
+ */
+export interface SopsMetadata {
+    format: 'yaml' | 'json' | 'ini' | 'dotenv' | 'binary';
+    /** Recipients per key group; files without key_groups have a single group */
+    keyGroups: SopsRecipient[][];
+    /** Whether the file uses explicit key_groups (Shamir secret sharing) */
+    usesKeyGroups: boolean;
+    shamirThreshold?: number;
+    lastModified?: string;
+    mac?: string;
+    version?: string;
+    encryptedRegex?: string;
+    unencryptedRegex?: string;
+    encryptedSuffix?: string;
+    unencryptedSuffix?: string;
+    encryptedCommentRegex?: string;
+    unencryptedCommentRegex?: string;
+    macOnlyEncrypted?: boolean;
 }
 
 /**
@@ -105,3 +190,13 @@ export const CONTEXT_KEYS = {
  * URI scheme for decrypted preview documents
  */
 export const SOPS_DECRYPTED_SCHEME = 'sops-decrypted';
+
+/**
+ * URI scheme for in-memory edit-in-place documents
+ */
+export const SOPS_EDIT_SCHEME = 'sops-edit';
+
+/**
+ * URI scheme for decrypted file content read from git
+ */
+export const SOPS_GIT_SCHEME = 'sops-git';
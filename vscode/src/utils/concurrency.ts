@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+
+/**
+ * Utility functions for running asynchronous work in parallel
+ */
+
+/**
+ * Run a worker over items with at most `limit` in flight at once.
+ * Stops starting new items once the token is cancelled; items already
+ * running are allowed to finish.
+ * @returns The number of items that were started
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+    token?: vscode.CancellationToken
+): Promise<number> {
+    let next = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (next < items.length && !token?.isCancellationRequested) {
+            const item = items[next++];
+            await worker(item);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => runNext()));
+    return next;
+}
@@ -4,11 +4,14 @@
 
 /**
  * Extract a message string from an unknown error type.
- * Handles Error objects, strings, and other types safely.
+ * Handles Error objects, structured SopsErrors, strings, and other types safely.
  */
 export function getErrorMessage(error: unknown): string {
     if (error instanceof Error) {
         return error.message;
     }
+    if (typeof error === 'object' && error !== null && 'message' in error) {
+        return String(error.message);
+    }
     return String(error);
 }
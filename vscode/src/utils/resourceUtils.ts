@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { logger } from '../services/loggerService';
+
+/**
+ * Utility functions for resolving command arguments
+ */
+
+/**
+ * Extract a resource URI from a command argument.
+ * Commands receive a Uri from editor/explorer menus but a tree element
+ * (with a resourceUri) from tree view menus.
+ */
+export function getResourceUri(arg: unknown): vscode.Uri | undefined {
+    if (arg instanceof vscode.Uri) {
+        return arg;
+    }
+    if (typeof arg === 'object' && arg !== null && 'resourceUri' in arg) {
+        const resourceUri = (arg as { resourceUri: unknown }).resourceUri;
+        if (resourceUri instanceof vscode.Uri) {
+            return resourceUri;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Resolve the editor a command should act on.
+ * Opens the resource in an editor when invoked from a menu, otherwise
+ * falls back to the active editor.
+ */
+export async function resolveTargetEditor(arg: unknown): Promise<vscode.TextEditor | undefined> {
+    const resourceUri = getResourceUri(arg);
+    const activeEditor = vscode.window.activeTextEditor;
+
+    if (!resourceUri || activeEditor?.document.uri.toString() === resourceUri.toString()) {
+        return activeEditor;
+    }
+
+    const doc = await vscode.workspace.openTextDocument(resourceUri);
+    return vscode.window.showTextDocument(doc, { preview: false });
+}
+
+/**
+ * Reload a file in the editor after in-place modification by SOPS CLI.
+ * Uses VS Code's revert command to refresh the editor content from disk.
+ */
+export async function reloadFileInEditor(uri: vscode.Uri): Promise<void> {
+    const openDoc = vscode.workspace.textDocuments.find(
+        doc => doc.uri.toString() === uri.toString()
+    );
+    if (openDoc) {
+        logger.debug(`Reloading file in editor: ${uri.fsPath}`);
+        await vscode.commands.executeCommand('workbench.action.files.revert', uri);
+    }
+}
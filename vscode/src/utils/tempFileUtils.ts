@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../services/loggerService';
+import { getErrorMessage } from './errorUtils';
+
+/**
+ * Utility functions for short-lived temp files next to SOPS files
+ */
+
+/**
+ * Prefix of temp files created next to SOPS files (hidden, and ignored by rule matching)
+ */
+export const TEMP_FILE_PREFIX = '.sopsie-temp-';
+
+// Temp files holding edited plaintext keep the original's name so they can be recovered after a crash
+const EDIT_TEMP_FILE_REGEX = /^\.sopsie-temp-edit-\d+-[a-z0-9]+-(.+)$/;
+
+function createTempId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Build a unique hidden temp file path in the given directory.
+ * Keeping temp files next to the original lets .sops.yaml rules match them.
+ */
+export function createTempPath(dir: string, ext: string): string {
+    return path.join(dir, `${TEMP_FILE_PREFIX}${createTempId()}${ext}`);
+}
+
+/**
+ * Build a unique hidden temp file path for edited plaintext of originalPath.
+ * The name ends with the original file name, so the original can be found
+ * from a temp file left behind by a crash.
+ */
+export function createEditTempPath(originalPath: string): string {
+    const tempFileName = `${TEMP_FILE_PREFIX}edit-${createTempId()}-${path.basename(originalPath)}`;
+    return path.join(path.dirname(originalPath), tempFileName);
+}
+
+/**
+ * Get the original file of a temp file created by createEditTempPath
+ */
+export function getEditTempOriginal(tempFilePath: string): string | undefined {
+    const match = EDIT_TEMP_FILE_REGEX.exec(path.basename(tempFilePath));
+    return match ? path.join(path.dirname(tempFilePath), match[1]) : undefined;
+}
+
+/**
+ * Delete a temp file, logging (but not throwing) on failure
+ */
+export function removeTempFile(tempFilePath: string): void {
+    try {
+        if (fs.existsSync(tempFilePath)) {
+            fs.unlinkSync(tempFilePath);
+        }
+    } catch (cleanupError) {
+        logger.debug(`Failed to clean up temp file: ${getErrorMessage(cleanupError)}`);
+    }
+}
+
+/**
+ * Overwrite a file with zeros before deleting it.
+ * Best effort: copy-on-write file systems and SSDs may keep the old blocks.
+ */
+export async function secureDeleteFile(filePath: string): Promise<void> {
+    const handle = await fs.promises.open(filePath, 'r+');
+    try {
+        const { size } = await handle.stat();
+        await handle.write(Buffer.alloc(size), 0, size, 0);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.promises.unlink(filePath);
+}
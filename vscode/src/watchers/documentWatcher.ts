@@ -6,13 +6,17 @@ import { SopsDetector } from '../sops/sopsDetector';
 import { SopsRunner } from '../sops/sopsRunner';
 import { StatusBarProvider } from '../providers/statusBarProvider';
 import { DecryptedContentProvider } from '../providers/decryptedContentProvider';
+import { DecryptedFileSystemProvider } from '../providers/decryptedFileSystemProvider';
 import { SettingsService } from '../services/settingsService';
 import { EditorGroupTracker } from '../services/editorGroupTracker';
 import { DecryptedViewService } from '../services/decryptedViewService';
 import { FileStateTracker } from '../state/fileStateTracker';
 import { AutoBehaviorHandler } from '../handlers/autoBehaviorHandler';
-import { FileEncryptionState, SOPS_DECRYPTED_SCHEME } from '../types';
+import { checkRecipientDrift } from '../providers/recipientDriftProvider';
+import { RecipientDrift } from '../config/ruleRecipients';
+import { FileEncryptionState, SOPS_DECRYPTED_SCHEME, SOPS_EDIT_SCHEME } from '../types';
 import { logger } from '../services/loggerService';
+import { getErrorMessage } from '../utils/errorUtils';
 
 /**
  * Tracks document events and manages file state.
@@ -20,7 +24,6 @@ import { logger } from '../services/loggerService';
  */
 export class DocumentWatcher implements vscode.Disposable {
     private disposables: vscode.Disposable[] = [];
-    private fileStateTracker = new FileStateTracker();
     private autoBehaviorHandler: AutoBehaviorHandler;
 
     constructor(
@@ -32,7 +35,8 @@ export class DocumentWatcher implements vscode.Disposable {
         private decryptedContentProvider: DecryptedContentProvider,
         private settingsService: SettingsService,
         private editorGroupTracker: EditorGroupTracker,
-        private decryptedViewService: DecryptedViewService
+        private decryptedViewService: DecryptedViewService,
+        private fileStateTracker: FileStateTracker
     ) {
         // Initialize auto behavior handler
         this.autoBehaviorHandler = new AutoBehaviorHandler(
@@ -52,7 +56,8 @@ export class DocumentWatcher implements vscode.Disposable {
 
         // Track document opens for auto-preview behavior
         this.disposables.push(
-            vscode.workspace.onDidOpenTextDocument((doc) => {
+            vscode.workspace.onDidOpenTextDocument(async (doc) => {
+                await this.configManager.ensureConfigsFor(doc.uri);
                 this.autoBehaviorHandler.handleDocumentOpened(doc);
             })
         );
@@ -108,6 +113,8 @@ export class DocumentWatcher implements vscode.Disposable {
             return;
         }
 
+        // Files outside the workspace scan may have a config nobody has loaded yet
+        await this.configManager.ensureConfigsFor(editor.document.uri);
         await this.updateContext(editor.document.uri, editor.document);
 
         // Check if we should update the preview/edit panel to match the focused file
@@ -150,7 +157,7 @@ export class DocumentWatcher implements vscode.Disposable {
             return;
         }
 
-        // Check if the focused file IS the tracked decrypted document itself (edit-in-place temp file)
+        // Check if the focused file IS the tracked decrypted document itself (edit-in-place document)
         if (currentTracked && currentTracked.docUri === focusedUri.toString()) {
             logger.debug('[DocumentWatcher] Skipping - focused on tracked decrypted doc');
             return;
@@ -205,22 +212,27 @@ export class DocumentWatcher implements vscode.Disposable {
     }
 
     private async updateContext(uri: vscode.Uri, document?: vscode.TextDocument): Promise<void> {
-        // Skip non-file schemes (except our preview scheme)
-        if (uri.scheme !== 'file' && uri.scheme !== SOPS_DECRYPTED_SCHEME) {
+        // Skip non-file schemes (except our preview and edit schemes)
+        if (uri.scheme !== 'file' && uri.scheme !== SOPS_DECRYPTED_SCHEME && uri.scheme !== SOPS_EDIT_SCHEME) {
             this.contextManager.clearContext();
             this.statusBarProvider.hide();
             return;
         }
 
-        // For preview URIs, get the original file path
-        const fileUri =
-            uri.scheme === SOPS_DECRYPTED_SCHEME
-                ? vscode.Uri.file(DecryptedContentProvider.getOriginalPath(uri))
-                : uri;
+        // For preview and edit URIs, get the original file path
+        let fileUri = uri;
+        if (uri.scheme === SOPS_DECRYPTED_SCHEME) {
+            fileUri = vscode.Uri.file(DecryptedContentProvider.getOriginalPath(uri));
+        } else if (uri.scheme === SOPS_EDIT_SCHEME) {
+            fileUri = vscode.Uri.file(DecryptedFileSystemProvider.getOriginalPath(uri));
+            // The editor holds decrypted content, not the original file's
+            document = undefined;
+        }
 
         const hasMatchingRule = this.configManager.hasMatchingRule(fileUri);
 
         let encryptionState: FileEncryptionState;
+        let recipientDrift: RecipientDrift | null = null;
 
         if (!hasMatchingRule) {
             encryptionState = FileEncryptionState.Unknown;
@@ -228,22 +240,41 @@ export class DocumentWatcher implements vscode.Disposable {
             encryptionState = FileEncryptionState.Decrypted;
         } else {
             // Use in-memory content if document is available, otherwise read from disk
-            const isEncrypted = document
-                ? this.sopsDetector.isDocumentEncrypted(document)
-                : await this.sopsDetector.isEncrypted(fileUri);
+            const content = document
+                ? document.getText()
+                : await this.readFileContent(fileUri);
+            const isEncrypted = content !== null && this.sopsDetector.isContentEncrypted(content);
             encryptionState = isEncrypted
                 ? FileEncryptionState.Encrypted
                 : FileEncryptionState.PlainText;
+
+            if (isEncrypted && this.settingsService.shouldWarnOutdatedRecipients()) {
+                recipientDrift = checkRecipientDrift(this.configManager, fileUri, content);
+            }
         }
 
         this.contextManager.setFileContext(hasMatchingRule, encryptionState);
         this.statusBarProvider.update(
             hasMatchingRule,
             encryptionState,
-            this.settingsService.shouldShowStatusBar()
+            this.settingsService.shouldShowStatusBar(),
+            recipientDrift
         );
     }
 
+    /**
+     * Read a file from disk, returning null if it cannot be read
+     */
+    private async readFileContent(uri: vscode.Uri): Promise<string | null> {
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            return Buffer.from(content).toString('utf-8');
+        } catch (error) {
+            logger.debug(`Failed to read file for encryption check ${uri.fsPath}: ${getErrorMessage(error)}`);
+            return null;
+        }
+    }
+
     private async onDocumentClosed(doc: vscode.TextDocument): Promise<void> {
         // Clean up file state tracking only
         // Tab-based closing is handled by EditorGroupTracker.handleTabsChanged()
@@ -252,6 +283,5 @@ export class DocumentWatcher implements vscode.Disposable {
 
     dispose(): void {
         this.disposables.forEach((d) => d.dispose());
-        this.fileStateTracker.clear();
     }
 }